@@ -28,6 +28,8 @@ export function binarySearch(array: number[], sought: number) {
             upper = idx - 1;
         }
     }
+
+    return insertionPointReturnValue(lower)
 }
 
 export function getLineStartPositions(text: string) {
@@ -0,0 +1,218 @@
+'use strict';
+
+import * as Yaml from 'yaml-ast-parser'
+
+/**
+ * The YAML 1.2 schema resolving the type of plain scalars:
+ * - `core`: the core schema
+ * - `json`: the JSON schema, only resolving JSON literals
+ * - `failsafe`: the failsafe schema, where every scalar is a string
+ */
+export type ScalarSchema = 'core' | 'json' | 'failsafe';
+
+/**
+ * The types plain scalars resolve to, the YAML 1.2 schemas or the YAML 1.1 types,
+ * where `yes`, `on`, `0777` and `1_000` are resolved as well.
+ */
+export type ScalarResolution = ScalarSchema | 'yaml11';
+
+/**
+ * A YAML version, as written in a `%YAML` directive.
+ */
+export type YAMLVersion = '1.1' | '1.2';
+
+interface ScalarTypes {
+	null: RegExp;
+	true: RegExp;
+	false: RegExp;
+	int: RegExp;
+	float: RegExp;
+}
+
+const nothing = /$^/;
+
+const scalarTypes: { [schema: string]: ScalarTypes } = {
+	core: {
+		null: /^(?:~|null|Null|NULL|)$/,
+		true: /^(?:true|True|TRUE)$/,
+		false: /^(?:false|False|FALSE)$/,
+		int: /^(?:[-+]?[0-9]+|0o[0-7]+|0x[0-9a-fA-F]+)$/,
+		float: /^(?:[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/
+	},
+	json: {
+		null: /^null$/,
+		true: /^true$/,
+		false: /^false$/,
+		int: /^-?(?:0|[1-9][0-9]*)$/,
+		float: /^-?(?:0|[1-9][0-9]*)(?:\.[0-9]*)?(?:[eE][-+]?[0-9]+)?$/
+	},
+	failsafe: {
+		null: nothing,
+		true: nothing,
+		false: nothing,
+		int: nothing,
+		float: nothing
+	},
+	yaml11: {
+		null: /^(?:~|null|Null|NULL|)$/,
+		true: /^(?:y|Y|yes|Yes|YES|true|True|TRUE|on|On|ON)$/,
+		false: /^(?:n|N|no|No|NO|false|False|FALSE|off|Off|OFF)$/,
+		int: /^(?:[-+]?0b[01_]+|[-+]?0[0-7_]+|[-+]?(?:0|[1-9][0-9_]*)|[-+]?0x[0-9a-fA-F_]+|[-+]?[1-9][0-9_]*(?::[0-5]?[0-9])+)$/,
+		float: /^(?:[-+]?(?:[0-9][0-9_]*\.[0-9_]*|\.[0-9][0-9_]*)(?:[eE][-+]?[0-9]+)?|[-+]?[0-9][0-9_]*(?::[0-5]?[0-9])+\.[0-9_]*|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/
+	}
+};
+
+/**
+ * Returns the scalar resolution of a document written in the given YAML version, YAML 1.2 documents using the given schema.
+ */
+export function getScalarResolution(version: string, schema: ScalarSchema = 'core'): ScalarResolution {
+	return (version === '1.1' || version === '1.0') ? 'yaml11' : schema;
+}
+
+/**
+ * Returns the type a scalar resolves to in the given schema. Quoted scalars are always strings.
+ */
+export function determineScalarType(node: Yaml.YAMLScalar, schema: ScalarResolution = 'core'): Yaml.ScalarType {
+	if (node.doubleQuoted || !node.plainScalar || node.singleQuoted) {
+		return Yaml.ScalarType.string;
+	}
+
+	const value = node.value;
+	const types = scalarTypes[schema];
+
+	if (value === null || value === undefined || types.null.test(value)) {
+		return Yaml.ScalarType.null;
+	} else if (types.true.test(value) || types.false.test(value)) {
+		return Yaml.ScalarType.bool;
+	} else if (types.int.test(value)) {
+		return Yaml.ScalarType.int;
+	} else if (types.float.test(value)) {
+		return Yaml.ScalarType.float;
+	}
+	return Yaml.ScalarType.string;
+}
+
+/**
+ * Returns the type of a scalar explicitly tagged with the given standard tag, such as `int`,
+ * or `undefined` if the content is not a value of that type.
+ */
+export function determineTaggedScalarType(value: string, tag: string, schema: ScalarResolution = 'core'): Yaml.ScalarType {
+	// The failsafe schema only has strings, the other tags keep their usual meaning
+	const types = scalarTypes[schema === 'failsafe' ? 'core' : schema];
+
+	switch (tag) {
+		case 'str':
+			return Yaml.ScalarType.string;
+		case 'null':
+			return types.null.test(value) ? Yaml.ScalarType.null : undefined;
+		case 'bool':
+			return (types.true.test(value) || types.false.test(value)) ? Yaml.ScalarType.bool : undefined;
+		case 'int':
+			return types.int.test(value) ? Yaml.ScalarType.int : undefined;
+		case 'float':
+			return (types.float.test(value) || types.int.test(value)) ? Yaml.ScalarType.float : undefined;
+	}
+	return Yaml.ScalarType.string;
+}
+
+export function parseYamlBoolean(value: string, schema: ScalarResolution = 'core'): boolean {
+	return scalarTypes[schema === 'failsafe' ? 'core' : schema].true.test(value);
+}
+
+function parseSexagesimal(value: string, parse: (part: string) => number): number {
+	return value.split(':').reduce((result, part) => result * 60 + parse(part), 0);
+}
+
+export function parseYamlInteger(value: string, schema: ScalarResolution = 'core'): number {
+	const sign = value[0] === '-' ? -1 : 1;
+	let digits = value.replace(/^[-+]/, '');
+
+	if (schema === 'yaml11') {
+		digits = digits.replace(/_/g, '');
+		if (digits.indexOf(':') !== -1) {
+			return sign * parseSexagesimal(digits, part => parseInt(part, 10));
+		} else if (digits.lastIndexOf('0b', 0) === 0) {
+			return sign * parseInt(digits.substring(2), 2);
+		} else if (digits.length > 1 && digits[0] === '0' && digits[1] !== 'x') {
+			return sign * parseInt(digits.substring(1), 8);
+		}
+	}
+
+	if (digits.lastIndexOf('0o', 0) === 0) {
+		return sign * parseInt(digits.substring(2), 8);
+	} else if (digits.lastIndexOf('0x', 0) === 0) {
+		return sign * parseInt(digits.substring(2), 16);
+	}
+	return sign * parseInt(digits, 10);
+}
+
+export function parseYamlFloat(value: string, schema: ScalarResolution = 'core'): number {
+	const sign = value[0] === '-' ? -1 : 1;
+	let digits = value.replace(/^[-+]/, '');
+
+	if (/^\.(?:nan|NaN|NAN)$/.test(digits)) {
+		return NaN;
+	} else if (/^\.(?:inf|Inf|INF)$/.test(digits)) {
+		return sign * Infinity;
+	}
+
+	if (schema === 'yaml11') {
+		digits = digits.replace(/_/g, '');
+		if (digits.indexOf(':') !== -1) {
+			return sign * parseSexagesimal(digits, part => parseFloat(part));
+		}
+	}
+	return sign * parseFloat(digits);
+}
+
+const yamlDate = /^([0-9]{4})-([0-9]{2})-([0-9]{2})$/;
+const yamlDateTime = /^([0-9]{4})-([0-9]{1,2})-([0-9]{1,2})(?:[Tt]|[ \t]+)([0-9]{1,2}):([0-9]{2}):([0-9]{2})(?:\.([0-9]*))?(?:[ \t]*(Z|([-+])([0-9]{1,2})(?::?([0-9]{2}))?))?$/;
+
+/**
+ * Returns whether the value has the syntax of a timestamp, a date or a date and time,
+ * whether or not it is a valid date.
+ */
+export function isYamlTimestamp(value: string): boolean {
+	return yamlDate.test(value) || yamlDateTime.test(value);
+}
+
+/**
+ * Returns whether the value has the syntax of a timestamp with a time.
+ */
+export function isYamlDateTime(value: string): boolean {
+	return yamlDateTime.test(value);
+}
+
+/**
+ * Returns the date of a timestamp, or null if the value is not a valid date.
+ */
+export function parseYamlTimestamp(value: string): Date {
+	const match = yamlDate.exec(value) || yamlDateTime.exec(value);
+	if (!match) {
+		return null;
+	}
+
+	const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1, 7).map(part => parseInt(part, 10));
+	const milliseconds = match[7] ? Math.round(parseFloat('0.' + match[7]) * 1000) : 0;
+	const offsetHours = match[10] ? parseInt(match[10], 10) : 0;
+	const offsetMinutes = match[11] ? parseInt(match[11], 10) : 0;
+
+	const date = new Date(0);
+	date.setUTCFullYear(year, month - 1, day);
+	if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day ||
+		hour > 23 || minute > 59 || second > 59 || offsetHours > 23 || offsetMinutes > 59) {
+		return null;
+	}
+
+	const offset = (match[9] === '-' ? -1 : 1) * (offsetHours * 60 + offsetMinutes);
+	date.setUTCHours(hour, minute - offset, second, milliseconds);
+	return date;
+}
+
+/**
+ * Returns whether the value is base64 encoded binary data, which may be split over several lines.
+ */
+export function isYamlBinary(value: string): boolean {
+	const data = value.replace(/[ \t\r\n]/g, '');
+	return data.length % 4 === 0 && /^[A-Za-z0-9+\/]*={0,2}$/.test(data);
+}
@@ -0,0 +1,161 @@
+'use strict';
+
+import { ASTNode, PropertyASTNode, IRange } from 'vscode-json-languageservice/lib/parser/jsonParser';
+
+/**
+ * A comment of the document. `start` and `end` delimit the comment, including the `#`.
+ */
+export interface IComment {
+	/**
+	 * The text of the comment, without the `#`.
+	 */
+	value: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * The comments attached to a node:
+ * - `leading`: the comments on the lines before the node
+ * - `inline`: the comment at the end of the line of the node, or of the document start marker for the root
+ * - `trailing`: the comments after the last entry of a collection, indented as the collection
+ */
+export interface INodeComments {
+	leading: IComment[];
+	inline: IComment;
+	trailing: IComment[];
+}
+
+const isBlank = (c: string) => c === ' ' || c === '\t' || c === '\r' || c === '\n';
+
+function getLineStart(text: string, offset: number): number {
+	return Math.max(text.lastIndexOf('\n', offset - 1), text.lastIndexOf('\r', offset - 1)) + 1;
+}
+
+/**
+ * Returns the comments of the text between the given offsets. A `#` starting a token
+ * is a comment unless it is within a quoted or block scalar, given by `scalars` sorted by start.
+ */
+export function findComments(text: string, start: number, end: number, scalars: IRange[]): IComment[] {
+	const comments: IComment[] = [];
+	let scalarIndex = 0;
+
+	let index = text.indexOf('#', start);
+	while (index !== -1 && index < end) {
+		while (scalarIndex < scalars.length && scalars[scalarIndex].end <= index) {
+			scalarIndex++;
+		}
+
+		const inScalar = scalarIndex < scalars.length && scalars[scalarIndex].start <= index;
+		if (!inScalar && (index === 0 || isBlank(text[index - 1]))) {
+			let lineEnd = index;
+			while (lineEnd < end && text[lineEnd] !== '\r' && text[lineEnd] !== '\n') {
+				lineEnd++;
+			}
+			comments.push({ value: text.substring(index + 1, lineEnd), start: index, end: lineEnd });
+			index = lineEnd;
+		}
+
+		index = text.indexOf('#', index + 1);
+	}
+
+	return comments;
+}
+
+/**
+ * Returns the entries of the collections of the tree, mapping entries and sequence items, in document order.
+ */
+function getEntries(node: ASTNode, entries: ASTNode[] = []): ASTNode[] {
+	if (node && (node.type === 'object' || node.type === 'array')) {
+		for (const child of node.getChildNodes()) {
+			entries.push(child);
+			getEntries(child.type === 'property' ? (<PropertyASTNode>child).value : child, entries);
+		}
+	}
+	return entries;
+}
+
+/**
+ * Returns the collection containing the entry, or the collection containing that collection.
+ */
+function getCollection(node: ASTNode): ASTNode {
+	const parent = node.parent;
+	return (parent && parent.type === 'property') ? parent.parent : parent;
+}
+
+// Only whitespace, comments and indicators of block collections separate a leading comment from its node
+const commentSeparator = /^(?:[\s\-?]|#[^\r\n]*)*$/;
+
+/**
+ * Attaches the comments to the nodes of the tree.
+ */
+export function attachComments(comments: IComment[], root: ASTNode, text: string): Map<ASTNode, INodeComments> {
+	const result = new Map<ASTNode, INodeComments>();
+	const entries = getEntries(root);
+
+	const getNodeComments = (node: ASTNode) => {
+		let nodeComments = result.get(node);
+		if (!nodeComments) {
+			nodeComments = { leading: [], inline: null, trailing: [] };
+			result.set(node, nodeComments);
+		}
+		return nodeComments;
+	};
+	const getColumn = (offset: number) => offset - getLineStart(text, offset);
+
+	for (const comment of comments) {
+		const lineStart = getLineStart(text, comment.start);
+		const column = comment.start - lineStart;
+
+		// A comment after content belongs to the entry ending last before it on its line,
+		// or else to the innermost entry starting on its line
+		if (text.substring(lineStart, comment.start).trim()) {
+			let entry: ASTNode = null;
+			let ending: ASTNode = null;
+			for (const candidate of entries) {
+				if (candidate.start >= lineStart && candidate.start < comment.start) {
+					entry = candidate;
+					if (candidate.end <= comment.start && (!ending || candidate.end >= ending.end)) {
+						ending = candidate;
+					}
+				}
+			}
+
+			if (ending || entry) {
+				getNodeComments(ending || entry).inline = comment;
+				continue;
+			}
+
+			// A comment after the document start marker is about the document
+			if (root && /^---\s/.test(text.substring(lineStart, comment.start))) {
+				getNodeComments(root).inline = comment;
+				continue;
+			}
+		}
+
+		// A comment on its own line leads the next entry, unless the entry is less indented
+		const next = entries.find(entry => entry.start > comment.start);
+		if (next && getColumn(next.start) >= column && commentSeparator.test(text.substring(comment.end, next.start))) {
+			getNodeComments(next).leading.push(comment);
+			continue;
+		}
+
+		// and otherwise trails the innermost collection before it that is not more indented
+		let previous: ASTNode = null;
+		for (const entry of entries) {
+			if (entry.end <= comment.start) {
+				previous = entry;
+			}
+		}
+
+		let collection = previous ? getCollection(previous) : root;
+		while (collection && collection !== root && getColumn(collection.start) > column) {
+			collection = getCollection(collection);
+		}
+		if (collection) {
+			getNodeComments(collection).trailing.push(comment);
+		}
+	}
+
+	return result;
+}
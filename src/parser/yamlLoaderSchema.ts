@@ -0,0 +1,30 @@
+'use strict';
+
+import * as Yaml from 'yaml-ast-parser'
+
+// The parser's loader reads the tags it accepts from the `schema` option, but its index exports neither the Schema
+// nor the Type class. They are imported from their modules, so yaml-ast-parser is pinned to an exact version.
+import { Schema } from 'yaml-ast-parser/dist/src/schema'
+import { Type } from 'yaml-ast-parser/dist/src/type'
+
+/**
+ * A tag accepted by the loader, and how it constructs the tagged nodes.
+ */
+export interface LoaderTag {
+	tag: string;
+	kind: 'scalar' | 'sequence' | 'mapping';
+	construct: (node: Yaml.YAMLNode) => Yaml.YAMLNode;
+}
+
+/**
+ * The `schema` option of the loader.
+ */
+export type LoaderSchema = Schema;
+
+/**
+ * Returns a schema accepting only the given tags. The types of plain scalars are resolved when building the AST,
+ * so the schema does not resolve them.
+ */
+export function createLoaderSchema(tags: LoaderTag[]): LoaderSchema {
+	return new Schema({ explicit: tags.map(tag => new Type(tag.tag, { kind: tag.kind, construct: tag.construct })) });
+}
@@ -1,7 +1,8 @@
 'use strict';
 
-import { JSONDocument, ASTNode, ErrorCode, BooleanASTNode, NullASTNode, ArrayASTNode, NumberASTNode, ObjectASTNode, PropertyASTNode, StringASTNode, IError, IApplicableSchema } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { JSONDocument, ASTNode, ErrorCode, BooleanASTNode, NullASTNode, ArrayASTNode, NumberASTNode, ObjectASTNode, PropertyASTNode, StringASTNode, IError, IRange, IApplicableSchema, ValidationResult } from 'vscode-json-languageservice/lib/parser/jsonParser';
 import { JSONSchema } from 'vscode-json-languageservice/lib/jsonSchema';
+import { Segment } from 'vscode-json-languageservice/lib/jsonContributions';
 
 import * as nls from 'vscode-nls';
 const localize = nls.loadMessageBundle();
@@ -9,169 +10,1009 @@ const localize = nls.loadMessageBundle();
 import * as Yaml from 'yaml-ast-parser'
 import { Kind } from 'yaml-ast-parser'
 
+import { Position, TextDocumentContentChangeEvent } from 'vscode-languageserver-types';
+
 import { getLineStartPositions, getPosition } from '../documentPositionCalculator'
+import { ScalarSchema, ScalarResolution, YAMLVersion, getScalarResolution, determineScalarType, determineTaggedScalarType, parseYamlBoolean, parseYamlInteger, parseYamlFloat,
+	isYamlTimestamp, isYamlDateTime, parseYamlTimestamp, isYamlBinary } from './scalarResolution'
+import { IComment, INodeComments, findComments, attachComments } from './yamlComments'
+import { LoaderSchema, LoaderTag, createLoaderSchema } from './yamlLoaderSchema'
+
+export { ScalarSchema, YAMLVersion, IComment, INodeComments }
+
+/**
+ * An anchor (`&name`) attached to a node of the document.
+ * `start` and `end` delimit the anchor property itself, including the `&`.
+ */
+export interface IAnchor {
+	name: string;
+	start: number;
+	end: number;
+	node: ASTNode;
+}
 
-export class SingleYAMLDocument extends JSONDocument {
-	private lines;
+/**
+ * An alias (`*name`) referring to a previously anchored node.
+ * Rather than copying the anchored node, the alias keeps a reference to it
+ * and forwards value retrieval and validation to it.
+ */
+export class AliasASTNode extends ASTNode {
+	public name: string;
+	public anchor: IAnchor;
+
+	constructor(parent: ASTNode, location: Segment, name: string, anchor: IAnchor, start: number, end: number) {
+		super(parent, 'alias', location, start, end);
+		this.name = name;
+		this.anchor = anchor;
+	}
 
-	constructor(lines: number[]) {
-		super({disallowComments: false, ignoreDanglingComma: true});
-		this.lines = lines;
+	/**
+	 * The anchored node, or null when the alias cannot be resolved or
+	 * refers to one of its own ancestors.
+	 */
+	public getTarget(): ASTNode {
+		if (!this.anchor) {
+			return null;
+		}
+
+		for (let node = this.parent; node; node = node.parent) {
+			if (node === this.anchor.node) {
+				return null;
+			}
+		}
+
+		return this.anchor.node;
 	}
 
-	// TODO: This is complicated, messy and probably buggy
-	// It should be re-written.
-	// To get the correct behavior, it probably needs to be aware of
-	// the type of the nodes it is processing since there are no delimiters
-	// like in JSON. (ie. so it correctly returns 'object' vs 'property')
-	public getNodeFromOffsetEndInclusive(offset: number): ASTNode {
-		if (!this.root) {
+	public getValue(): any {
+		const target = this.getTarget();
+		return target ? target.getValue() : null;
+	}
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+		if (offset !== -1 && !this.contains(offset)) {
 			return;
 		}
-		if (offset < this.root.start || offset > this.root.end) {
-			// We somehow are completely outside the document
-			// This is unexpected
-			console.log("Attempting to resolve node outside of document")
-			return null;
+
+		const target = this.getTarget();
+		if (!target) {
+			return;
 		}
 
-		const children = this.root.getChildNodes()
+		const targetResult = new ValidationResult();
+		target.validate(schema, targetResult, matchingSchemas);
 
-		function* sliding2(nodes: ASTNode[]) {
-			var i = 0;
-			while (i < nodes.length) {
-				yield [nodes[i], (i === nodes.length) ? null : nodes[i + 1]]
-				i++;
-			}
+		// Problems are reported where the value is used, not where it is anchored
+		mergeRelocatedResult(validationResult, targetResult, () => ({ start: this.start, end: this.end }));
+
+		if (matchingSchemas !== null) {
+			matchingSchemas.push({ node: this, schema: schema });
 		}
+	}
+}
 
-		const onLaterLine = (offset: number, node: ASTNode) => {
-			const { line: actualLine } = getPosition(offset, this.lines)
-			const { line: nodeEndLine } = getPosition(node.end, this.lines)
+/**
+ * A `!include` of another file. Until the include is resolved, its value is null,
+ * afterwards it is the root of the included document.
+ */
+export class IncludeASTNode extends ASTNode {
+	public path: string;
+	public value: ASTNode = null;
+
+	constructor(parent: ASTNode, location: Segment, path: string, start: number, end: number) {
+		super(parent, 'include', location, start, end);
+		this.path = path;
+	}
 
-			return actualLine > nodeEndLine;
+	public getValue(): any {
+		return this.value ? this.value.getValue() : null;
+	}
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+		if (offset !== -1 && !this.contains(offset)) {
+			return;
 		}
 
-		let findNode = (nodes: ASTNode[]): ASTNode => {
-			if (nodes.length === 0) {
-				return null;
+		if (!this.value) {
+			return;
+		}
+
+		const includedResult = new ValidationResult();
+		this.value.validate(schema, includedResult, matchingSchemas);
+
+		mergeRelocatedResult(validationResult, includedResult, () => ({ start: this.start, end: this.end }));
+
+		if (matchingSchemas !== null) {
+			matchingSchemas.push({ node: this, schema: schema });
+		}
+	}
+}
+
+// The type definitions of the schema lack the draft 6 keyword
+type ObjectSchema = JSONSchema & { propertyNames?: JSONSchema };
+
+/**
+ * Returns whether the schema, or one of the schemas it combines with allOf, anyOf or oneOf,
+ * describes an object, whose property names are strings.
+ */
+function expectsObject(schema: ObjectSchema): boolean {
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	if (types.indexOf('object') !== -1 || !!schema.properties || !!schema.patternProperties ||
+		schema.additionalProperties !== undefined || !!schema.propertyNames) {
+		return true;
+	}
+	const subSchemas = (<JSONSchema[]>[]).concat(schema.allOf || [], schema.anyOf || [], schema.oneOf || []);
+	return subSchemas.some(subSchema => typeof subSchema === 'object' && expectsObject(subSchema));
+}
+
+/**
+ * A mapping. The JSON validation ignores the `propertyNames` of the schema, so this
+ * validates the keys, and warns about keys that are not strings where an object is expected.
+ */
+export class YAMLObjectASTNode extends ObjectASTNode {
+	private validatingSubSchema = false;
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+		if (offset !== -1 && !this.contains(offset)) {
+			return;
+		}
+
+		// The JSON validation validates the node again against the parts of the schema, such as allOf
+		const subSchema = this.validatingSubSchema;
+		this.validatingSubSchema = true;
+		try {
+			super.validate(schema, validationResult, matchingSchemas, offset);
+		} finally {
+			this.validatingSubSchema = subSchema;
+		}
+
+		const propertyNames = (<ObjectSchema>schema).propertyNames;
+		for (const property of this.properties) {
+			const key = property.key;
+			if (propertyNames) {
+				key.validate(propertyNames, validationResult, []);
+			}
+
+			// Only warned about once, against the whole schema
+			const keyType = (key instanceof KeyASTNode) ? key.getKeyType() : 'string';
+			if (keyType !== 'string' && !subSchema && expectsObject(schema)) {
+				validationResult.warnings.push({
+					location: { start: key.start, end: key.end },
+					message: localize('nonStringKey', 'Key of type {0} is used as the property name "{1}"', keyType, key.value)
+				});
 			}
+		}
+	}
+}
 
-			var gen = sliding2(nodes);
+/**
+ * A mapping with merge keys (`<<`). Its `properties` are the effective properties
+ * after merging, while its child nodes are the entries written in the mapping,
+ * merge keys included.
+ */
+export class MergedObjectASTNode extends YAMLObjectASTNode {
+	public entries: PropertyASTNode[] = [];
+	private mergeSources = new Map<PropertyASTNode, PropertyASTNode>();
+
+	public getChildNodes(): ASTNode[] {
+		return this.entries;
+	}
 
-			let result: IteratorResult<ASTNode[]> = { done: false, value: undefined }
+	public getLastChild(): ASTNode {
+		return this.entries[this.entries.length - 1];
+	}
 
-			for (let [first, second] of gen) {
-				const end = (second) ? second.start : first.parent.end
-				if (offset >= first.start && offset < end) {
-					const children = first.getChildNodes();
+	public addEntry(node: PropertyASTNode): boolean {
+		if (!node) {
+			return false;
+		}
+		this.entries.push(node);
+		return true;
+	}
 
-					const foundChild = findNode(children)
+	/**
+	 * Adds a property merged in by the given merge key unless
+	 * a property with the same key is already present.
+	 */
+	public addMergedProperty(node: PropertyASTNode, mergeKey: PropertyASTNode): boolean {
+		if (this.getFirstProperty(node.key.value)) {
+			return false;
+		}
+		this.mergeSources.set(node, mergeKey);
+		return this.addProperty(node);
+	}
 
-					if (foundChild) {
-						if (foundChild['isKey'] && foundChild.end < offset) {
-							return foundChild.parent;
-						}
+	/**
+	 * Makes a copy of the node refer to the copies of its merged properties and merge keys.
+	 */
+	public copyMergeSources(copyOf: <T extends ASTNode>(node: T) => T): void {
+		const mergeSources = new Map<PropertyASTNode, PropertyASTNode>();
+		this.mergeSources.forEach((mergeKey, property) => mergeSources.set(copyOf(property), copyOf(mergeKey)));
+		this.mergeSources = mergeSources;
+	}
 
-						if (foundChild.type === "null") {
-							return null;
-						}
-					}
+	public visit(visitor: (node: ASTNode) => boolean): boolean {
+		let ctn = visitor(this);
+		for (let i = 0; i < this.entries.length && ctn; i++) {
+			ctn = this.entries[i].visit(visitor);
+		}
+		return ctn;
+	}
 
-					if (!foundChild && onLaterLine(offset, first)) {
-						return this.getNodeByIndent(this.lines, offset, this.root)
-					}
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+		const objectResult = new ValidationResult();
+		super.validate(schema, objectResult, matchingSchemas, offset);
 
-					return foundChild || first;
+		// Problems in merged properties are reported on the merge key that brought them in
+		mergeRelocatedResult(validationResult, objectResult, location => {
+			let result = location;
+			this.mergeSources.forEach((mergeKey, property) => {
+				if (location.start >= property.start && location.end <= property.end) {
+					result = { start: mergeKey.start, end: mergeKey.end };
 				}
+			});
+			return result;
+		});
+	}
+}
+
+const stringFormats: { [format: string]: (value: string) => boolean } = {
+	'date': value => !isYamlDateTime(value) && !!parseYamlTimestamp(value),
+	'date-time': value => isYamlDateTime(value) && !!parseYamlTimestamp(value),
+	'byte': isYamlBinary
+};
+
+/**
+ * The style a scalar is written in: plain, quoted, or a literal (`|`) or folded (`>`) block scalar.
+ */
+export type ScalarStyle = 'plain' | 'single-quoted' | 'double-quoted' | 'literal' | 'folded';
+
+/**
+ * How the final line breaks of a block scalar are kept: `strip` (`-`), `clip` or `keep` (`+`).
+ */
+export type BlockChomping = 'strip' | 'clip' | 'keep';
+
+/**
+ * A string scalar. The JSON validation ignores the `format` of strings, so this
+ * validates dates, written with the syntax of YAML timestamps, and base64 data.
+ */
+export class YAMLStringASTNode extends StringASTNode {
+	public style: ScalarStyle = 'plain';
+	/**
+	 * The chomping of a block scalar, null for other styles.
+	 */
+	public chomping: BlockChomping = null;
+	/**
+	 * The indentation indicator of a block scalar, or 0 if its indentation is detected.
+	 */
+	public indentationIndicator = 0;
+	/**
+	 * The range of the content as written, without quotes or block scalar header.
+	 */
+	public contentRange: IRange = null;
+
+	constructor(parent: ASTNode, location: Segment, start: number, end: number) {
+		super(parent, location, false, start, end);
+	}
+
+	protected hasFormat(format: string): boolean {
+		const check = stringFormats[format];
+		return !check || check(this.value);
+	}
+
+	public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+		if (offset !== -1 && !this.contains(offset)) {
+			return;
+		}
+
+		super.validate(schema, validationResult, matchingSchemas, offset);
+
+		if (schema.format && !this.hasFormat(schema.format)) {
+			validationResult.warnings.push({
+				location: { start: this.start, end: this.end },
+				message: schema.errorMessage || localize('formatWarning', 'String is not a valid {0}', schema.format)
+			});
+		}
+	}
+}
+
+/**
+ * The key of a mapping entry, which can be any node in YAML. The key as written is `node`,
+ * and the value is its string form, used as property name.
+ */
+export class KeyASTNode extends YAMLStringASTNode {
+	public node: ASTNode = null;
+
+	constructor(parent: ASTNode, start: number, end: number) {
+		super(parent, null, start, end);
+		this.isKey = true;
+	}
+
+	/**
+	 * Returns the type of the key as written, or of the node an alias key refers to.
+	 */
+	public getKeyType(): string {
+		const node = (this.node instanceof AliasASTNode) ? this.node.getTarget() : this.node;
+		return node ? node.type : 'null';
+	}
+
+	public visit(visitor: (node: ASTNode) => boolean): boolean {
+		return visitor(this) && (!this.node || this.node.visit(visitor));
+	}
+}
+
+/**
+ * A timestamp, tagged `!!timestamp` or resolved from a plain scalar in YAML 1.1.
+ * The value is the timestamp as written, and `date` is null if it is not a valid date.
+ */
+export class TimestampASTNode extends YAMLStringASTNode {
+	public date: Date = null;
+
+	protected hasFormat(format: string): boolean {
+		// Invalid dates are already reported by the parser
+		return !this.date || super.hasFormat(format);
+	}
+}
+
+/**
+ * Base64 encoded binary data tagged `!!binary`.
+ */
+export class BinaryASTNode extends YAMLStringASTNode {
+}
+
+function mergeRelocatedResult(validationResult: ValidationResult, subResult: ValidationResult, relocate: (location: IRange) => IRange) {
+	subResult.errors.concat(subResult.warnings).forEach(problem => {
+		problem.location = relocate(problem.location);
+	});
+
+	validationResult.merge(subResult);
+	validationResult.propertiesMatches += subResult.propertiesMatches;
+	validationResult.propertiesValueMatches += subResult.propertiesValueMatches;
+	validationResult.enumValueMatch = validationResult.enumValueMatch || subResult.enumValueMatch;
+	if (subResult.mismatchedEnumValues) {
+		validationResult.mismatchedEnumValues = subResult.mismatchedEnumValues;
+	}
+}
+
+/**
+ * Returns the position moved by the given delta. The parser uses -1 for the positions of
+ * the nodes and documents it creates when recovering from errors, which do not move.
+ */
+function movePosition(position: number, delta: number): number {
+	return position >= 0 ? position + delta : position;
+}
+
+export class SingleYAMLDocument extends JSONDocument {
+	private lines;
+	private text: string;
+	private syntaxErrors: IError[] = [];
+	private syntaxWarnings: IError[] = [];
+	public start: number;
+	public end: number;
+	public anchors: IAnchor[] = [];
+	public aliases: AliasASTNode[] = [];
+	public includes: IncludeASTNode[] = [];
+	public comments: IComment[] = [];
+	public directives: IDirective[] = [];
+	private nodeComments = new Map<ASTNode, INodeComments>();
+
+	constructor(lines: number[], text: string) {
+		super({disallowComments: false, ignoreDanglingComma: true});
+		this.lines = lines;
+		this.text = text;
+	}
+
+	public hasSyntaxErrors(): boolean {
+		return this.syntaxErrors.length > 0;
+	}
+
+	public addSyntaxError(error: IError): void {
+		this.syntaxErrors.push(error);
+		this.errors.push(error);
+	}
+
+	public addSyntaxWarning(warning: IError): void {
+		this.syntaxWarnings.push(warning);
+		this.warnings.push(warning);
+	}
+
+	/**
+	 * Validates the document against the given schema. Only the syntax problems are kept from previous validations,
+	 * as the documents a change does not affect are shared by the streams before and after the change.
+	 */
+	public validate(schema: JSONSchema, matchingSchemas: IApplicableSchema[] = null, offset: number = -1): void {
+		this.errors.splice(0, this.errors.length, ...this.syntaxErrors);
+		this.warnings.splice(0, this.warnings.length, ...this.syntaxWarnings);
+		super.validate(schema, matchingSchemas, offset);
+	}
+
+	/**
+	 * Returns a copy of the document moved by the given offset and line deltas within the given text and its
+	 * line start positions. Only the syntax problems are kept, the copy has to be validated.
+	 */
+	public copy(delta: number, lineDelta: number, lines: number[], text: string): SingleYAMLDocument {
+		// Copy the nodes first, then make the copies refer to each other
+		const nodes = new Map<ASTNode, ASTNode>();
+		this.visit(node => {
+			nodes.set(node, Object.assign(Object.create(Object.getPrototypeOf(node)), node));
+			return true;
+		});
+		const copyOf = <T extends ASTNode>(node: T): T => <T>nodes.get(node) || node;
+		const copyRange = (range: IRange): IRange => ({ start: range.start, end: range.end });
+
+		const anchors = new Map<IAnchor, IAnchor>();
+		this.anchors.forEach(anchor => anchors.set(anchor, { name: anchor.name, start: anchor.start, end: anchor.end, node: copyOf(anchor.node) }));
+		const comments = new Map<IComment, IComment>();
+		this.comments.forEach(comment => comments.set(comment, { value: comment.value, start: comment.start, end: comment.end }));
+		const copyComment = (comment: IComment) => comment && comments.get(comment);
+
+		nodes.forEach(node => {
+			node.parent = copyOf(node.parent);
+			if (node instanceof ArrayASTNode) {
+				node.items = node.items.map(copyOf);
+			}
+			if (node instanceof ObjectASTNode) {
+				node.properties = node.properties.map(copyOf);
+			}
+			if (node instanceof MergedObjectASTNode) {
+				node.entries = node.entries.map(copyOf);
+				node.copyMergeSources(copyOf);
+			}
+			if (node instanceof PropertyASTNode) {
+				node.key = copyOf(node.key);
+				node.value = copyOf(node.value);
+			}
+			if (node instanceof KeyASTNode) {
+				node.node = copyOf(node.node);
+			}
+			if (node instanceof YAMLStringASTNode && node.contentRange) {
+				node.contentRange = copyRange(node.contentRange);
+			}
+			if (node instanceof AliasASTNode && node.anchor) {
+				node.anchor = anchors.get(node.anchor);
 			}
+		});
+
+		const copy = new SingleYAMLDocument(lines, text);
+		copy.start = this.start;
+		copy.end = this.end;
+		copy.root = copyOf(this.root);
+		copy.anchors = this.anchors.map(anchor => anchors.get(anchor));
+		copy.aliases = this.aliases.map(copyOf);
+		copy.includes = this.includes.map(copyOf);
+		copy.comments = this.comments.map(copyComment);
+		copy.directives = this.directives.map(directive => ({ name: directive.name, parameters: directive.parameters, start: directive.start, end: directive.end }));
+		this.nodeComments.forEach((attached, node) => copy.nodeComments.set(copyOf(node), {
+			leading: attached.leading.map(copyComment), inline: copyComment(attached.inline), trailing: attached.trailing.map(copyComment)
+		}));
+		this.syntaxErrors.forEach(error => copy.addSyntaxError({ ...error, location: copyRange(error.location) }));
+		this.syntaxWarnings.forEach(warning => copy.addSyntaxWarning({ ...warning, location: copyRange(warning.location) }));
+
+		copy.move(delta, lineDelta, lines, text);
+		return copy;
+	}
+
+	/**
+	 * Returns whether the document and its nodes have positions. The parser creates the documents and mapping entries
+	 * it recovers from some errors without one, and reports problems about them at arbitrary positions.
+	 */
+	public isPositioned(): boolean {
+		let positioned = this.start >= 0;
+		this.visit(node => positioned = positioned && node.start >= 0);
+		return positioned;
+	}
+
+	/**
+	 * Returns whether the document was parsed as the given one moved by the given offset delta:
+	 * with the same range, root range and syntax problems.
+	 */
+	public matches(other: SingleYAMLDocument, delta: number): boolean {
+		const sameRange = (range: IRange, otherRange: IRange) =>
+			range.start === movePosition(otherRange.start, delta) && range.end === movePosition(otherRange.end, delta);
+		const sameProblems = (problems: IError[], otherProblems: IError[]) => problems.length === otherProblems.length &&
+			problems.every((problem, index) => problem.code === otherProblems[index].code && sameRange(problem.location, otherProblems[index].location));
+
+		return sameRange(this, other) && (this.root && other.root ? sameRange(this.root, other.root) : this.root === other.root) &&
+			sameProblems(this.syntaxErrors, other.syntaxErrors) && sameProblems(this.syntaxWarnings, other.syntaxWarnings);
+	}
+
+	/**
+	 * Moves a document that is not validated yet by the given offset and line deltas within the given text
+	 * and its line start positions.
+	 */
+	public move(delta: number, lineDelta: number, lines: number[], text: string): void {
+		this.lines = lines;
+		this.text = text;
+
+		if (delta === 0 && lineDelta === 0) {
+			return;
+		}
+
+		const moveRange = (range: IRange) => {
+			range.start = movePosition(range.start, delta);
+			range.end = movePosition(range.end, delta);
+		};
+		const moveProblem = (problem: IError) => {
+			moveRange(problem.location);
+			// The parser's messages end with the position of the problem
+			problem.message = problem.message.replace(/ at line (\d+), column /, (match, line) => ` at line ${Number(line) + lineDelta}, column `);
+		};
+
+		moveRange(this);
+		this.anchors.forEach(moveRange);
+		this.comments.forEach(moveRange);
+		this.directives.forEach(moveRange);
+		this.syntaxErrors.forEach(moveProblem);
+		this.syntaxWarnings.forEach(moveProblem);
+		this.visit(node => {
+			moveRange(node);
+			if (node instanceof YAMLStringASTNode && node.contentRange) {
+				moveRange(node.contentRange);
+			}
+			if (node instanceof PropertyASTNode) {
+				node.colonOffset = movePosition(node.colonOffset, delta);
+			}
+			return true;
+		});
+	}
+
+	/**
+	 * Sets the comments of the document, attaching them to the nodes of the tree built from the given text.
+	 */
+	public setComments(comments: IComment[], text: string): void {
+		this.comments = comments;
+		this.nodeComments = attachComments(comments, this.root, text);
+	}
+
+	/**
+	 * Returns the comments attached to the given node.
+	 */
+	public getComments(node: ASTNode): INodeComments {
+		return this.nodeComments.get(node) || { leading: [], inline: null, trailing: [] };
+	}
 
+	/**
+	 * Returns the tag written with a handle, such as `!e!name`, expanded with the `%TAG`
+	 * directives of the document, or null if the handle is not defined.
+	 */
+	public expandTag(tag: string): string {
+		const verbatim = /^!<(.*)>$/.exec(tag);
+		if (verbatim) {
+			return verbatim[1];
+		}
+
+		const [, handle, suffix] = /^(!(?:[0-9A-Za-z-]*!)?)(.*)$/.exec(tag) || [null, null, null];
+		const directive = this.directives.find(d => d.name === 'TAG' && d.parameters.length === 2 && d.parameters[0] === handle);
+		if (directive) {
+			return directive.parameters[1] + suffix;
+		} else if (handle === '!') {
+			return tag;
+		} else if (handle === '!!') {
+			return 'tag:yaml.org,2002:' + suffix;
+		}
+		return null;
+	}
+
+	/**
+	 * Returns the anchor an alias with the given name resolves to at the given offset,
+	 * that is the last anchor of that name defined before the offset.
+	 */
+	public getAnchor(name: string, offset: number): IAnchor {
+		let result: IAnchor = null;
+		for (const anchor of this.anchors) {
+			if (anchor.name === name && anchor.start < offset) {
+				result = anchor;
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Returns the node at the given offset, following the block structure of YAML where nodes have no
+	 * delimiters: on an empty or indented blank line, the offset belongs to the innermost collection
+	 * not more indented than the offset, or to a property without value it is more indented than.
+	 * After `key: ` it belongs to the property, and after `- ` to the sequence, as a new item.
+	 */
+	public getNodeFromOffsetEndInclusive(offset: number): ASTNode {
+		if (!this.root) {
 			return null;
 		}
 
-		return findNode(children) || this.root;
+		const { line, column } = getPosition(offset, this.lines);
+		const lineStart = this.lines[line];
+		const lineText = this.text.substring(lineStart, getLineEnd(this.text, lineStart, this.text.length));
+		const before = lineText.substring(0, offset - lineStart);
+
+		if (!lineText.trim()) {
+			return this.getNodeByIndent(offset, column);
+		}
+
+		const newItem = /^(.*(?:^|\s))-\s*$/.exec(before);
+		if (newItem && !lineText.substring(before.length).trim()) {
+			return this.getNodeByIndent(offset, newItem[1].length);
+		}
+
+		if (/:\s*$/.test(before)) {
+			const property = this.getPropertyOnLine(lineStart, offset);
+			if (property && (!property.value || property.value.start > offset || property.value.start === property.value.end)) {
+				return property;
+			}
+		}
+
+		return this.root.getNodeFromOffsetEndInclusive(offset) || this.root;
 	}
 
 	public getNodeFromOffset(offset: number): ASTNode {
 		return this.getNodeFromOffsetEndInclusive(offset);
 	}
 
-	private getNodeByIndent = (lines: number[], offset: number, node: ASTNode) => {
+	private getColumn(offset: number): number {
+		return getPosition(offset, this.lines).column;
+	}
 
-		const { line, column: indent } = getPosition(offset, this.lines)
+	/**
+	 * Returns the property whose key is the last one starting on the line before the offset.
+	 */
+	private getPropertyOnLine(lineStart: number, offset: number): PropertyASTNode {
+		let result: PropertyASTNode = null;
+		this.root.visit(node => {
+			if (node instanceof PropertyASTNode && node.key.start >= lineStart && node.key.start < offset) {
+				result = node;
+			}
+			return node.start < offset;
+		});
+		return result;
+	}
 
-		const children = node.getChildNodes()
+	/**
+	 * Returns the node an offset on a line without content before it belongs to, given the column of the offset.
+	 */
+	private getNodeByIndent(offset: number, column: number): ASTNode {
+		// The lines of flow collections are not indented
+		const isFlow = (node: ASTNode) => this.text[node.start] === '[' || this.text[node.start] === '{';
+
+		let node = this.root;
+		while ((node.type === 'object' || node.type === 'array') && !isFlow(node)) {
+			const entry = node.getChildNodes().filter(child => child.start < offset).pop();
+			if (!entry) {
+				return node;
+			}
 
-		function findNode(children) {
-			for (var idx = 0; idx < children.length; idx++) {
-				var child = children[idx];
+			const value = entry.type === 'property' ? (<PropertyASTNode>entry).value : entry;
+			const isCollection = value && (value.type === 'object' || value.type === 'array') && value.start < offset;
+			if (isCollection && (isFlow(value) ? offset < value.end : this.getColumn(value.start) <= column)) {
+				node = value;
+			} else if (entry.type === 'property' && (!value || value.start === value.end) && column > this.getColumn(node.start)) {
+				// The value of the property is yet to be written
+				return entry;
+			} else {
+				return node;
+			}
+		}
+		return node;
+	}
+}
 
-				const { line: childLine, column: childCol } = getPosition(child.start, lines);
 
-				if (childCol > indent) {
-					return null;
-				}
+/**
+ * An application specific tag, such as CloudFormation's `!Ref`.
+ */
+export interface CustomTag {
+	/**
+	 * The tag as written in the document, for example `!Ref`.
+	 */
+	tag: string;
+	/**
+	 * The kind of node the tag applies to.
+	 */
+	kind: 'scalar' | 'sequence' | 'mapping';
+	/**
+	 * If set, tagged nodes are validated against this schema instead of the schema of their location.
+	 */
+	schema?: JSONSchema;
+}
 
-				const newChildren = child.getChildNodes()
-				const foundNode = findNode(newChildren)
+export interface ParserOptions {
+	customTags?: CustomTag[];
+	/**
+	 * The YAML version of documents without a `%YAML` directive, 1.2 by default.
+	 */
+	yamlVersion?: YAMLVersion;
+	/**
+	 * The schema resolving plain scalars in YAML 1.2 documents, the core schema by default.
+	 */
+	scalarSchema?: ScalarSchema;
+}
 
-				if (foundNode) {
-					return foundNode;
-				}
+interface BuildContext {
+	text: string;
+	document: SingleYAMLDocument;
+	taggedNodes: Map<Yaml.YAMLNode, CustomTag>;
+	scalarResolution: ScalarResolution;
+}
 
-				// We have the right indentation, need to return based on line
-				if (childLine == line) {
-					return child;
-				}
-				if (childLine > line) {
-					// Get previous
-					(idx - 1) >= 0 ? children[idx - 1] : child;
+type NodeClass = new (...args: any[]) => ASTNode;
+
+/**
+ * Extends a class of nodes to validate its nodes against the schema of their application specific tag,
+ * whichever schema applies at their location.
+ */
+function withTagSchema<T extends NodeClass>(Base: T) {
+	return class extends Base {
+		public tagSchema: JSONSchema = null;
+		public validatingTagSchema = false;
+
+		public validate(schema: JSONSchema, validationResult: ValidationResult, matchingSchemas: IApplicableSchema[], offset: number = -1): void {
+			// Nested calls validate parts of the tag schema, such as allOf
+			if (!this.tagSchema || this.validatingTagSchema) {
+				return super.validate(schema, validationResult, matchingSchemas, offset);
+			}
+
+			this.validatingTagSchema = true;
+			try {
+				super.validate(this.tagSchema, validationResult, matchingSchemas, offset);
+			} finally {
+				this.validatingTagSchema = false;
+			}
+		}
+	};
+}
+
+const TaggedObjectASTNode = withTagSchema(YAMLObjectASTNode);
+const TaggedMergedObjectASTNode = withTagSchema(MergedObjectASTNode);
+const TaggedArrayASTNode = withTagSchema(ArrayASTNode);
+const TaggedStringASTNode = withTagSchema(YAMLStringASTNode);
+
+/**
+ * Creates a node of the given class, or of its tagged class if the custom tag of the YAML node has a schema.
+ */
+function createNode<T extends ASTNode>(nodeClass: new (...args: any[]) => T, taggedClass: new (...args: any[]) => T & { tagSchema: JSONSchema },
+	node: Yaml.YAMLNode, context: BuildContext, ...args: any[]): T {
+	const customTag = context.taggedNodes.get(node);
+	if (!customTag || !customTag.schema) {
+		return new nodeClass(...args);
+	}
+
+	const result = new taggedClass(...args);
+	result.tagSchema = customTag.schema;
+	return result;
+}
+
+function registerAnchor(node: Yaml.YAMLNode, result: ASTNode, context: BuildContext) {
+	if (!node.anchorId || !result) {
+		return;
+	}
+
+	// The parser does not keep the position of node properties, but the anchor
+	// is the closest occurrence of `&name` before the node content
+	const property = '&' + node.anchorId;
+	const start = context.text.lastIndexOf(property, node.startPosition);
+	if (start === -1) {
+		return;
+	}
+
+	context.document.anchors.push({ name: node.anchorId, start: start, end: start + property.length, node: result });
+}
+
+function isMergeKey(mapping: Yaml.YAMLMapping): boolean {
+	const key = mapping && mapping.key;
+	return !!key && key.kind === Yaml.Kind.SCALAR && key.value === '<<' && !key.singleQuoted && !key.doubleQuoted;
+}
+
+function buildMergedObject(parent: ASTNode, instance: Yaml.YamlMap, context: BuildContext): ObjectASTNode {
+	const result = createNode(MergedObjectASTNode, TaggedMergedObjectASTNode, instance, context, parent, null, instance.startPosition, instance.endPosition);
+	registerAnchor(instance, result, context);
+
+	const mergeKeys: PropertyASTNode[] = [];
+	for (const mapping of instance.mappings) {
+		const property = <PropertyASTNode>recursivelyBuildAst(result, mapping, context);
+		result.addEntry(property);
+
+		if (isMergeKey(mapping)) {
+			mergeKeys.push(property);
+		} else {
+			result.addProperty(property);
+		}
+	}
+
+	// Local keys override merged ones, and earlier merged mappings override later ones
+	for (const mergeKey of mergeKeys) {
+		const value = mergeKey && mergeKey.value;
+		const sources = (value && value.type === 'array') ? (<ArrayASTNode>value).items : [value];
+
+		for (const source of sources) {
+			const mapping = (source instanceof AliasASTNode) ? source.getTarget() : source;
+
+			if (!(mapping instanceof ObjectASTNode)) {
+				if (!(source instanceof AliasASTNode) || source.anchor) {
+					const location = source || mergeKey;
+					context.document.addSyntaxError({
+						message: localize('mergeKeyValue', 'Merge key value must be a mapping or a sequence of mappings'),
+						code: ErrorCode.Undefined,
+						location: { start: location.start, end: location.end }
+					});
 				}
-				// Else continue loop to try next element
+				continue;
 			}
 
-			// Special case, we found the correct
-			return children[children.length - 1]
+			mapping.properties.forEach(property => result.addMergedProperty(property, mergeKey));
 		}
+	}
+
+	return result;
+}
+
+const maxSafeInteger = Math.pow(2, 53) - 1;
+
+/**
+ * Warns about numbers that JavaScript cannot represent: integers beyond 2^53 are rounded
+ * and floats beyond the largest number become infinite.
+ */
+function checkNumberRange(node: NumberASTNode, value: string, context: BuildContext) {
+	const rounded = node.isInteger && Math.abs(node.value) > maxSafeInteger;
+	const overflowed = !node.isInteger && !isFinite(node.value) && !isNaN(node.value) && !/\.inf$/i.test(value);
+	if (rounded || overflowed) {
+		context.document.addSyntaxWarning({
+			message: localize('numberOutOfRange', 'Number {0} cannot be represented exactly and is read as {1}', value, String(node.value)),
+			code: <number>YAMLErrorCode.NumberOutOfRange,
+			location: { start: node.start, end: node.end }
+		});
+	}
+}
+
+// A tag property, possibly followed by an anchor, ending right before the node content
+const tagProperty = /^![^\s]*\s+(&[^\s]+\s+)?$/;
+
+/**
+ * Returns whether the node has a tag property. While recovering from errors, the parser
+ * may give the nodes it creates the tag of the type it resolved for a previous node.
+ */
+function hasTagProperty(text: string, node: Yaml.YAMLNode): boolean {
+	const start = text.lastIndexOf('!', node.startPosition - 1);
+	return start !== -1 && tagProperty.test(text.substring(start, node.startPosition));
+}
+
+function reportInvalidValue(node: Yaml.YAMLNode, tag: CustomTag, context: BuildContext) {
+	context.document.addSyntaxError({
+		message: localize('invalidTaggedValue', 'Value is not a valid {0}', tag.tag),
+		code: <number>YAMLErrorCode.InvalidTag,
+		location: { start: node.startPosition, end: node.endPosition }
+	});
+}
+
+function isPlainScalar(node: Yaml.YAMLScalar): boolean {
+	return node.plainScalar && !node.singleQuoted && !node.doubleQuoted;
+}
+
+const blockScalarHeader = /^[|>]([1-9]?)([-+]?)([1-9]?)/;
+
+/**
+ * Records the style of the scalar as written in the text, and the range of its content.
+ */
+function setScalarStyle(result: YAMLStringASTNode, node: Yaml.YAMLScalar, text: string) {
+	const start = node.startPosition;
+	const end = node.endPosition;
+
+	if (node.doubleQuoted || node.singleQuoted) {
+		result.style = node.doubleQuoted ? 'double-quoted' : 'single-quoted';
+		result.contentRange = { start: start + 1, end: Math.max(end - 1, start + 1) };
+		return;
+	}
 
-		return findNode(children) || node
+	const header = blockScalarHeader.exec(text.substring(start, getLineEnd(text, start, end)));
+	if (!header) {
+		result.contentRange = { start, end };
+		return;
 	}
+
+	const chomping = header[2];
+	result.style = text[start] === '|' ? 'literal' : 'folded';
+	result.chomping = chomping === '-' ? 'strip' : chomping === '+' ? 'keep' : 'clip';
+	result.indentationIndicator = Number(header[1] || header[3] || 0);
+	result.contentRange = { start: Math.min(getNextLineStart(text, start), end), end };
 }
 
+function buildString(parent: ASTNode, node: Yaml.YAMLScalar, tag: CustomTag, context: BuildContext): StringASTNode {
+	let result: YAMLStringASTNode;
+	let valid = true;
+
+	// Plain timestamps are only resolved in YAML 1.1
+	const implicitTimestamp = !tag && context.scalarResolution === 'yaml11' && isPlainScalar(node) && isYamlTimestamp(node.value);
+
+	if (tag === timestampTag || implicitTimestamp) {
+		const timestamp = new TimestampASTNode(parent, null, node.startPosition, node.endPosition);
+		timestamp.date = parseYamlTimestamp(node.value);
+		valid = !!timestamp.date;
+		result = timestamp;
+	} else if (tag === binaryTag) {
+		result = new BinaryASTNode(parent, null, node.startPosition, node.endPosition);
+		valid = isYamlBinary(node.value);
+	} else {
+		result = createNode(YAMLStringASTNode, TaggedStringASTNode, node, context, parent, null, node.startPosition, node.endPosition);
+	}
+
+	result.value = node.value;
+	setScalarStyle(result, node, context.text);
+	if (!valid) {
+		reportInvalidValue(node, tag || timestampTag, context);
+	}
+	return result;
+}
 
-function recursivelyBuildAst(parent: ASTNode, node: Yaml.YAMLNode): ASTNode {
+function buildKey(mapping: Yaml.YAMLMapping, context: BuildContext): KeyASTNode {
+	const key = mapping.key;
+
+	// An empty key, as in `? : value`
+	if (!key) {
+		const empty = new KeyASTNode(null, mapping.startPosition, mapping.startPosition);
+		empty.value = '';
+		return empty;
+	}
+
+	const result = new KeyASTNode(null, key.startPosition, key.endPosition);
+	result.node = recursivelyBuildAst(result, key, context);
+	if (result.node) {
+		result.start = result.node.start;
+		result.end = result.node.end;
+	}
+
+	// Scalars are named as written, collections have no string form of their own
+	const value = result.node ? result.node.getValue() : null;
+	if (key.kind === Yaml.Kind.SCALAR) {
+		result.value = key.value;
+		setScalarStyle(result, <Yaml.YAMLScalar>key, context.text);
+	} else if (value !== null && typeof value === 'object') {
+		result.value = context.text.substring(result.start, result.end);
+	} else {
+		result.value = String(value);
+	}
+	return result;
+}
+
+function recursivelyBuildAst(parent: ASTNode, node: Yaml.YAMLNode, context: BuildContext): ASTNode {
 
 	if (!node) {
 		return;
 	}
 
+	const result = buildAstNode(parent, node, context);
+
+	// Collections are registered while they are built so aliases within them can resolve
+	if (node.kind !== Yaml.Kind.MAP && node.kind !== Yaml.Kind.SEQ) {
+		registerAnchor(node, result, context);
+	}
+
+	return result;
+}
+
+function buildAstNode(parent: ASTNode, node: Yaml.YAMLNode, context: BuildContext): ASTNode {
+
 	switch (node.kind) {
 		case Yaml.Kind.MAP: {
 			const instance = <Yaml.YamlMap>node;
 
-			const result = new ObjectASTNode(parent, null, node.startPosition, node.endPosition)
-			result.addProperty
+			if (instance.mappings.some(isMergeKey)) {
+				return buildMergedObject(parent, instance, context);
+			}
+
+			const result = createNode(YAMLObjectASTNode, TaggedObjectASTNode, node, context, parent, null, node.startPosition, node.endPosition)
+			registerAnchor(node, result, context);
 
 			for (const mapping of instance.mappings) {
-				result.addProperty(<PropertyASTNode>recursivelyBuildAst(result, mapping))
+				result.addProperty(<PropertyASTNode>recursivelyBuildAst(result, mapping, context))
 			}
 
 			return result;
 		}
 		case Yaml.Kind.MAPPING: {
 			const instance = <Yaml.YAMLMapping>node;
-			const key = instance.key;
-
-			// Technically, this is an arbitrary node in YAML
-			// I doubt we would get a better string representation by parsing it
-			const keyNode = new StringASTNode(null, null, true, key.startPosition, key.endPosition);
-			keyNode.value = key.value;
+			const keyNode = buildKey(instance, context);
 
 			const result = new PropertyASTNode(parent, keyNode)
 			result.end = instance.endPosition
 
-			const valueNode = (instance.value) ? recursivelyBuildAst(result, instance.value) : new NullASTNode(parent, key.value, instance.endPosition, instance.endPosition)
-			valueNode.location = key.value
+			const valueNode = (instance.value) ? recursivelyBuildAst(result, instance.value, context) : new NullASTNode(parent, keyNode.value, instance.endPosition, instance.endPosition)
+			valueNode.location = keyNode.value
 
 			result.setValue(valueNode)
 
@@ -180,7 +1021,8 @@ function recursivelyBuildAst(parent: ASTNode, node: Yaml.YAMLNode): ASTNode {
 		case Yaml.Kind.SEQ: {
 			const instance = <Yaml.YAMLSequence>node;
 
-			const result = new ArrayASTNode(parent, null, instance.startPosition, instance.endPosition);
+			const result = createNode(ArrayASTNode, TaggedArrayASTNode, node, context, parent, null, instance.startPosition, instance.endPosition);
+			registerAnchor(node, result, context);
 
 			let count = 0;
 			for (const item of instance.items) {
@@ -190,7 +1032,7 @@ function recursivelyBuildAst(parent: ASTNode, node: Yaml.YAMLNode): ASTNode {
 
 				// Be aware of https://github.com/nodeca/js-yaml/issues/321
 				// Cannot simply work around it here because we need to know if we are in Flow or Block
-				var itemNode = (item === null) ? new NullASTNode(parent, null, instance.endPosition, instance.endPosition) : recursivelyBuildAst(result, item);
+				var itemNode = (item === null) ? new NullASTNode(parent, null, instance.endPosition, instance.endPosition) : recursivelyBuildAst(result, item, context);
 
 				itemNode.location = count++;
 				result.addItem(itemNode);
@@ -201,87 +1043,557 @@ function recursivelyBuildAst(parent: ASTNode, node: Yaml.YAMLNode): ASTNode {
 		case Yaml.Kind.SCALAR: {
 			const instance = <Yaml.YAMLScalar>node;
 
-			const type = Yaml.determineScalarType(instance)
-
 			// The name is set either by the sequence or the mapping case.
 			const name = null;
 			const value = instance.value;
 
+			const recordedTag = context.taggedNodes.get(node);
+			const isStandardTag = standardTags.indexOf(recordedTag) !== -1;
+			const tag = (!isStandardTag || hasTagProperty(context.text, node)) ? recordedTag : undefined;
+			let type: Yaml.ScalarType;
+
+			if (tag && isStandardTag) {
+				// Standard tags decide the type the content must have
+				type = determineTaggedScalarType(value, tag.tag.substring(2), context.scalarResolution);
+				if (type === undefined) {
+					reportInvalidValue(node, tag, context);
+					type = Yaml.ScalarType.string;
+				}
+			} else if (tag) {
+				// The content of application specific scalars is not resolved to other types
+				type = Yaml.ScalarType.string;
+			} else {
+				type = determineScalarType(instance, context.scalarResolution);
+			}
+
 			switch (type) {
 				case Yaml.ScalarType.null: {
 					return new NullASTNode(parent, name, instance.startPosition, instance.endPosition);
 				}
 				case Yaml.ScalarType.bool: {
-					return new BooleanASTNode(parent, name, Yaml.parseYamlBoolean(value), node.startPosition, node.endPosition)
+					return new BooleanASTNode(parent, name, parseYamlBoolean(value, context.scalarResolution), node.startPosition, node.endPosition)
 				}
 				case Yaml.ScalarType.int: {
 					const result = new NumberASTNode(parent, name, node.startPosition, node.endPosition);
-					result.value = Yaml.parseYamlInteger(value);
+					result.value = parseYamlInteger(value, context.scalarResolution);
 					result.isInteger = true;
+					checkNumberRange(result, value, context);
 					return result;
 				}
 				case Yaml.ScalarType.float: {
 					const result = new NumberASTNode(parent, name, node.startPosition, node.endPosition);
-					result.value = Yaml.parseYamlFloat(value);
+					result.value = parseYamlFloat(value, context.scalarResolution);
 					result.isInteger = false;
+					checkNumberRange(result, value, context);
 					return result;
 				}
 				case Yaml.ScalarType.string: {
-					const result = new StringASTNode(parent, name, false, node.startPosition, node.endPosition);
-					result.value = node.value;
-					return result;
+					return buildString(parent, instance, tag, context);
 				}
 			}
 
 			break;
 		}
 		case Yaml.Kind.ANCHOR_REF: {
-			const instance = (<Yaml.YAMLAnchorReference>node).value
+			const instance = <Yaml.YAMLAnchorReference>node;
+			const name = instance.referencesAnchor;
 
-			return recursivelyBuildAst(parent, instance) ||
-				new NullASTNode(parent, null, node.startPosition, node.endPosition);
+			// The parser's position excludes the leading `*`
+			const start = node.startPosition - 1;
+			const anchor = context.document.getAnchor(name, start);
+
+			const result = new AliasASTNode(parent, null, name, anchor, start, node.endPosition);
+			context.document.aliases.push(result);
+			return result;
 		}
 		case Yaml.Kind.INCLUDE_REF: {
-			// Issue Warning
-			console.log("Unsupported feature, node kind: " + node.kind);
+			const instance = <Yaml.YAMLScalar>node;
+
+			const result = new IncludeASTNode(parent, null, instance.value, node.startPosition, node.endPosition);
+			context.document.includes.push(result);
+			return result;
+		}
+	}
+}
+
+/**
+ * Codes of YAML syntax errors. Errors that have an equivalent in JSON use the JSON parser's `ErrorCode` instead.
+ */
+export enum YAMLErrorCode {
+	UnexpectedEndOfStream = 0x400,
+	UnexpectedContent = 0x401,
+	BadIndentation = 0x402,
+	InvalidMappingEntry = 0x403,
+	MissingComma = 0x404,
+	DuplicateKey = 0x405,
+	InvalidAnchor = 0x406,
+	UnresolvedAlias = 0x407,
+	InvalidTag = 0x408,
+	UnknownTag = 0x409,
+	InvalidDirective = 0x40A,
+	InvalidBlockScalarHeader = 0x40B,
+	InvalidInclude = 0x40C,
+	NumberOutOfRange = 0x40D
+}
+
+// Error codes by the start of the parser's error reasons
+const errorCodes: [string, number][] = [
+	['unexpected end of the', YAMLErrorCode.UnexpectedEndOfStream],
+	['end of the stream or a document separator is expected', YAMLErrorCode.UnexpectedContent],
+	['a line break is expected', YAMLErrorCode.UnexpectedContent],
+	['bad indentation', YAMLErrorCode.BadIndentation],
+	['can not read', YAMLErrorCode.InvalidMappingEntry],
+	['incomplete explicit mapping pair', YAMLErrorCode.InvalidMappingEntry],
+	['a whitespace character is expected after the key-value separator', YAMLErrorCode.InvalidMappingEntry],
+	['cannot merge mappings', YAMLErrorCode.InvalidMappingEntry],
+	['missed comma', YAMLErrorCode.MissingComma],
+	['duplicate key', YAMLErrorCode.DuplicateKey],
+	['name of an anchor', YAMLErrorCode.InvalidAnchor],
+	['name of an alias', YAMLErrorCode.InvalidAnchor],
+	['duplication of an anchor property', YAMLErrorCode.InvalidAnchor],
+	['alias node should not have any properties', YAMLErrorCode.InvalidAnchor],
+	['unidentified alias', YAMLErrorCode.UnresolvedAlias],
+	['unknown tag', YAMLErrorCode.UnknownTag],
+	['duplication of a tag property', YAMLErrorCode.InvalidTag],
+	['tag ', YAMLErrorCode.InvalidTag],
+	['named tag handle', YAMLErrorCode.InvalidTag],
+	['undeclared tag handle', YAMLErrorCode.InvalidTag],
+	['unacceptable node kind', YAMLErrorCode.InvalidTag],
+	['cannot resolve a node', YAMLErrorCode.InvalidTag],
+	['found incompatible YAML document', YAMLErrorCode.InvalidDirective],
+	['duplication of %YAML directive', YAMLErrorCode.InvalidDirective],
+	['directive', YAMLErrorCode.InvalidDirective],
+	['ill-formed', YAMLErrorCode.InvalidDirective],
+	['YAML directive', YAMLErrorCode.InvalidDirective],
+	['TAG directive', YAMLErrorCode.InvalidDirective],
+	['there is a previously declared suffix', YAMLErrorCode.InvalidDirective],
+	['repeat of', YAMLErrorCode.InvalidBlockScalarHeader],
+	['bad explicit indentation width', YAMLErrorCode.InvalidBlockScalarHeader],
+	['!include without value', YAMLErrorCode.InvalidInclude],
+	['unknown escape sequence', ErrorCode.InvalidEscapeCharacter],
+	['expected hexadecimal character', ErrorCode.InvalidEscapeCharacter],
+	['expected valid JSON character', ErrorCode.InvalidCharacter],
+	['the stream contains non-printable characters', ErrorCode.InvalidCharacter]
+];
+
+function getErrorCode(reason: string): number {
+	for (const [prefix, code] of errorCodes) {
+		if (reason.indexOf(prefix) === 0) {
+			return code;
+		}
+	}
+	return ErrorCode.Undefined;
+}
+
+const isWhitespace = (c: string) => c === ' ' || c === '\t' || c === '\r' || c === '\n';
+const isFlowIndicator = (c: string) => c === ',' || c === '[' || c === ']' || c === '{' || c === '}';
+
+/**
+ * Returns the end of the token starting at the given position, a token being delimited
+ * by whitespace, flow indicators and the key-value separator.
+ */
+function getTokenEnd(text: string, start: number, length: number): number {
+	let end = start;
+	while (end < length && !isWhitespace(text[end]) && !isFlowIndicator(text[end])) {
+		if (text[end] === ':' && (end + 1 >= length || isWhitespace(text[end + 1]) || isFlowIndicator(text[end + 1]))) {
 			break;
 		}
+		end++;
+	}
+	return end;
+}
+
+function getLineEnd(text: string, start: number, length: number): number {
+	let end = start;
+	while (end < length && text[end] !== '\r' && text[end] !== '\n') {
+		end++;
+	}
+	return end;
+}
+
+/**
+ * Returns the end of the given range without its trailing whitespace. Block nodes end after the line break of their
+ * last line, so this is where they end as shown to the user.
+ */
+export function getContentEnd(text: string, start: number, end: number): number {
+	while (end > start && /\s/.test(text[end - 1])) {
+		end--;
 	}
+	return end;
 }
 
-function convertError(e: Yaml.YAMLException) {
+/**
+ * Returns the range of the `*name` text of an unidentified alias error.
+ */
+function getAliasRange(e: Yaml.YAMLException): IRange {
+	// The parser reports the position after the alias
+	const alias = '*' + e.reason.substring(e.reason.indexOf('"') + 1, e.reason.lastIndexOf('"'));
+	const start = e.mark.buffer.lastIndexOf(alias, e.mark.position - alias.length);
+	if (alias.length > 1 && start !== -1) {
+		return { start, end: start + alias.length };
+	}
+	return null;
+}
+
+function convertError(e: Yaml.YAMLException): IError {
 	// Subtract 2 because \n\0 is added by the parser (see loader.ts/loadDocuments)
-	const bufferLength = e.mark.buffer.length - 2;
+	const buffer = e.mark.buffer;
+	const bufferLength = buffer.length - 2;
+
+	const code = getErrorCode(e.reason);
+	let start = Math.max(0, Math.min(e.mark.position, bufferLength - 1));
+	let end = e.mark.toLineEnd ? getLineEnd(buffer, start, bufferLength) : getTokenEnd(buffer, start, bufferLength);
+
+	switch (code) {
+		case YAMLErrorCode.BadIndentation: {
+			// The whole misplaced entry
+			start = e.mark.position - e.mark.column;
+			while (start < bufferLength && (buffer[start] === ' ' || buffer[start] === '\t')) {
+				start++;
+			}
+			end = getLineEnd(buffer, start, bufferLength);
+			break;
+		}
+		case YAMLErrorCode.UnresolvedAlias: {
+			const range = getAliasRange(e);
+			if (range) {
+				start = range.start;
+				end = range.end;
+			}
+			break;
+		}
+		case YAMLErrorCode.InvalidTag: {
+			// The parser reports an undeclared handle after the tag
+			const handle = /^undeclared tag handle "(.*)"/.exec(e.reason);
+			const tagStart = handle ? buffer.lastIndexOf(handle[1], start) : -1;
+			if (tagStart !== -1) {
+				start = tagStart;
+				end = getTokenEnd(buffer, start, bufferLength);
+			}
+			break;
+		}
+		case ErrorCode.InvalidEscapeCharacter: {
+			// The parser reports the position after the backslash
+			if (buffer[start - 1] === '\\') {
+				start--;
+				end = Math.min(start + 2, bufferLength);
+			}
+			break;
+		}
+	}
+
+	// Errors at whitespace or punctuation are shown on a single character
+	if (end === start) {
+		end = Math.min(start + 1, Math.max(bufferLength, 0));
+	}
+
+	return { message: `${e.message}`, code, location: { start, end } }
+}
+
+// Bounds the number of reparses spent on recovering from syntax errors
+const maxRecoveryAttempts = 20;
+
+function getYamlChildren(node: Yaml.YAMLNode): Yaml.YAMLNode[] {
+	switch (node.kind) {
+		case Yaml.Kind.MAP:
+			return (<Yaml.YamlMap>node).mappings;
+		case Yaml.Kind.MAPPING:
+			return [(<Yaml.YAMLMapping>node).key, (<Yaml.YAMLMapping>node).value];
+		case Yaml.Kind.SEQ:
+			return (<Yaml.YAMLSequence>node).items;
+		default:
+			return [];
+	}
+}
+
+/**
+ * Returns the ranges of the content of the quoted and block scalars of the documents, in document order.
+ * The header of a block scalar may be followed by a comment, so it is not part of the range.
+ */
+function getScalarContentRanges(text: string, yamlDocs: Yaml.YAMLNode[]): IRange[] {
+	const ranges: IRange[] = [];
+	const collect = (node: Yaml.YAMLNode) => {
+		if (!node) {
+			return;
+		}
+		if (node.kind === Yaml.Kind.SCALAR && !isPlainScalar(<Yaml.YAMLScalar>node)) {
+			const start = (text[node.startPosition] === '|' || text[node.startPosition] === '>') ? getLineEnd(text, node.startPosition, text.length) : node.startPosition;
+			ranges.push({ start, end: node.endPosition });
+		}
+		getYamlChildren(node).forEach(collect);
+	};
+	yamlDocs.forEach(collect);
+	return ranges;
+}
+
+function countNodes(node: Yaml.YAMLNode): number {
+	if (!node) {
+		return 0;
+	}
+	return getYamlChildren(node).reduce((count, child) => count + countNodes(child), 1);
+}
+
+/**
+ * Returns the innermost node that is still open at the given position.
+ */
+function getOpenNode(node: Yaml.YAMLNode, position: number): Yaml.YAMLNode {
+	if (!node || node.startPosition >= position || node.endPosition < position) {
+		return null;
+	}
+	for (const child of getYamlChildren(node)) {
+		const open = getOpenNode(child, position);
+		if (open) {
+			return open;
+		}
+	}
+	return node;
+}
+
+function getLineRange(text: string, position: number): IRange {
+	let start = position;
+	while (start > 0 && text[start - 1] !== '\n' && text[start - 1] !== '\r') {
+		start--;
+	}
+	return { start, end: getLineEnd(text, start, text.length) };
+}
+
+/**
+ * Returns the text to remove for the parser to get past the given error,
+ * or null when the error does not break the structure of the document.
+ */
+function getRecoveryRange(text: string, yamlDocs: Yaml.YAMLNode[], e: Yaml.YAMLException): IRange {
+	const position = Math.min(e.mark.position, text.length);
+
+	switch (getErrorCode(e.reason)) {
+		case YAMLErrorCode.UnresolvedAlias:
+			return getAliasRange(e);
+		case YAMLErrorCode.UnexpectedEndOfStream: {
+			// The unterminated flow collection or quoted scalar starts on the line of the open node
+			for (const doc of yamlDocs) {
+				const open = getOpenNode(doc, position);
+				if (open) {
+					return getLineRange(text, open.startPosition);
+				}
+			}
+			return getLineRange(text, position);
+		}
+		case YAMLErrorCode.InvalidMappingEntry: {
+			const line = getLineRange(text, position);
+			if (e.reason.indexOf('a multiline key may not be an implicit key') !== -1) {
+				// The key starts on a previous line
+				let previous = line;
+				while (previous.start > 0) {
+					previous = getLineRange(text, previous.start - 1);
+					if (/\S/.test(text.substring(previous.start, previous.end))) {
+						return previous;
+					}
+				}
+			}
+			return line;
+		}
+		case YAMLErrorCode.UnexpectedContent:
+		case YAMLErrorCode.BadIndentation:
+		case YAMLErrorCode.InvalidBlockScalarHeader:
+			return getLineRange(text, position);
+	}
+
+	return null;
+}
+
+function getYamlErrors(yamlDocs: Yaml.YAMLNode[]): Yaml.YAMLException[] {
+	// The parser shares the errors of the whole stream between its documents
+	return yamlDocs.length ? yamlDocs[0].errors : [];
+}
+
+const documentMarker = /^(---|\.\.\.)(\s|$)/;
+const documentStartMarker = /^---(\s|$)/;
+const documentEndMarker = /^\.\.\.(\s|$)/;
+
+interface RecoveredDocuments {
+	text: string;
+	yamlDocs: Yaml.YAMLNode[];
+}
+
+/**
+ * Blanks out the parts of the text that break the structure of the documents and parses
+ * the text again, so that the well-formed content around syntax errors is kept.
+ * Only characters other than line breaks are replaced, so offsets are unchanged.
+ */
+function recoverDocuments(text: string, yamlDocs: Yaml.YAMLNode[], load: (text: string) => Yaml.YAMLNode[]): RecoveredDocuments {
+	let recovered: RecoveredDocuments = { text, yamlDocs };
+
+	for (let attempt = 0; attempt < maxRecoveryAttempts; attempt++) {
+		let range: IRange = null;
+		for (const e of getYamlErrors(recovered.yamlDocs)) {
+			const candidate = !e.isWarning && getRecoveryRange(recovered.text, recovered.yamlDocs, e);
+			// Removing a document marker would merge the documents around it
+			if (candidate && /\S/.test(recovered.text.substring(candidate.start, candidate.end)) && !documentMarker.test(recovered.text.substr(candidate.start, 4))) {
+				range = candidate;
+				break;
+			}
+		}
+		if (!range) {
+			break;
+		}
+
+		const blanked = recovered.text.substring(0, range.start) + ' '.repeat(range.end - range.start) + recovered.text.substring(range.end);
+		try {
+			recovered = { text: blanked, yamlDocs: load(blanked) };
+		} catch (e) {
+			// The parser does not handle every malformed text, keep the last tree it produced
+			break;
+		}
+	}
+
+	// Keep the original tree when the recovery removed more than it restored
+	const size = (docs: Yaml.YAMLNode[]) => docs.reduce((count, doc) => count + countNodes(doc), 0);
+	return size(recovered.yamlDocs) >= size(yamlDocs) ? recovered : { text, yamlDocs };
+}
+
+// Node properties, anchors and tags, ending a line
+const danglingProperties = /(^|[\s\[{,])([&!][^\s,\[\]{}]*(?:\s+[&!][^\s,\[\]{}]*)*)\s*(?:#.*)?$/;
 
-	// TODO determine correct positioning.
-	return { message: `${e.message}`, location: { start: Math.min(e.mark.position, bufferLength - 1), end: bufferLength, code: ErrorCode.Undefined } }
+interface LoadedDocuments {
+	text: string;
+	yamlDocs: Yaml.YAMLNode[];
+	problems: IError[];
 }
 
-function createJSONDocument(yamlDoc: Yaml.YAMLNode, startPositions: number[]){
-	let _doc = new SingleYAMLDocument(startPositions);
-	_doc.root = recursivelyBuildAst(null, yamlDoc)
+/**
+ * Loads the text, blanking out the node properties that make the parser throw rather than report an error:
+ * properties ending a line in a sequence or a flow collection, as in a half-typed `- &anchor`.
+ * Returns the text loaded and the problems of the blanked properties.
+ */
+function loadDocuments(text: string, load: (text: string) => Yaml.YAMLNode[]): LoadedDocuments {
+	const problems: IError[] = [];
+	const candidates: IRange[] = [];
+	for (let lineStart = 0; lineStart < text.length; lineStart = getNextLineStart(text, lineStart)) {
+		const line = getLineRange(text, lineStart);
+		const match = danglingProperties.exec(text.substring(line.start, line.end));
+		if (match) {
+			const start = line.start + match.index + match[1].length;
+			candidates.push({ start, end: start + match[2].length });
+		}
+	}
+
+	let input = text;
+	for (;;) {
+		try {
+			return { text: input, yamlDocs: load(input), problems };
+		} catch (e) {
+			// The parser throws once it reads past the properties, so the first ones it throws for on their own are the culprit
+			const index = candidates.findIndex(candidate => {
+				try {
+					load(input.substring(0, getLineRange(input, candidate.end).end));
+					return false;
+				} catch (e) {
+					return true;
+				}
+			});
+			const culprit = index !== -1 ? candidates.splice(index, 1)[0] : { start: 0, end: input.length };
+
+			problems.push({
+				location: culprit,
+				code: <number>(input[culprit.start] === '&' ? YAMLErrorCode.InvalidAnchor : YAMLErrorCode.InvalidTag),
+				message: localize('danglingProperties', 'The anchor or tag must be followed by a node on the same line')
+			});
+			input = input.substring(0, culprit.start) + input.substring(culprit.start, culprit.end).replace(/[^\r\n]/g, ' ') + input.substring(culprit.end);
+		}
+	}
+}
+
+/**
+ * Returns the errors of the stream by document, an error belonging to the last document starting before it.
+ */
+function getErrorsByDocument(yamlDocs: Yaml.YAMLNode[], yamlErrors: Yaml.YAMLException[]): Yaml.YAMLException[][] {
+	const result = yamlDocs.map(() => <Yaml.YAMLException[]>[]);
+	yamlErrors.forEach(e => {
+		let index = 0;
+		while (index + 1 < yamlDocs.length && yamlDocs[index + 1].startPosition <= e.mark.position) {
+			index++;
+		}
+		if (index < result.length) {
+			result[index].push(e);
+		}
+	});
+	return result;
+}
+
+/**
+ * Returns the offset from which a document owns the stream: its first directive, or else its start marker,
+ * or else the end of the previous document, so that comments between documents belong to the next one.
+ */
+function getDocumentBoundary(text: string, previousEnd: number, start: number, directives: IDirective[]): number {
+	if (directives.length) {
+		return directives[0].start;
+	}
+
+	let result = previousEnd;
+	let lineStart = getLineRange(text, previousEnd).start;
+	for (lineStart = lineStart < previousEnd ? getNextLineStart(text, previousEnd) : lineStart; lineStart < start; lineStart = getNextLineStart(text, lineStart)) {
+		if (documentStartMarker.test(text.substr(lineStart, 4))) {
+			result = lineStart;
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the index of the document owning the offset, given where each document owns the stream from.
+ */
+function getDocumentIndex(boundaries: number[], offset: number): number {
+	let index = 0;
+	while (index + 1 < boundaries.length && boundaries[index + 1] <= offset) {
+		index++;
+	}
+	return index;
+}
+
+function createJSONDocument(yamlDoc: Yaml.YAMLNode, yamlErrors: Yaml.YAMLException[], comments: IComment[], startPositions: number[], source: string, text: string, taggedNodes: Map<Yaml.YAMLNode, CustomTag>, scalarResolution: ScalarResolution){
+	let _doc = new SingleYAMLDocument(startPositions, source);
+	_doc.start = yamlDoc.startPosition;
+	_doc.end = yamlDoc.endPosition;
+	_doc.root = recursivelyBuildAst(null, yamlDoc, { text, document: _doc, taggedNodes, scalarResolution })
 
 	if (!_doc.root) {
 		// TODO: When this is true, consider not pushing the other errors.
-		_doc.errors.push({ message: localize('Invalid symbol', 'Expected a YAML object, array or literal'), code: ErrorCode.Undefined, location: { start: yamlDoc.startPosition, end: yamlDoc.endPosition } });
+		_doc.addSyntaxError({ message: localize('Invalid symbol', 'Expected a YAML object, array or literal'), code: ErrorCode.Undefined, location: { start: yamlDoc.startPosition, end: yamlDoc.endPosition } });
 	}
 
 	const duplicateKeyReason = 'duplicate key'
 
-	const errors = yamlDoc.errors.filter(e => e.reason !== duplicateKeyReason && !e.isWarning).map(e => convertError(e))
-	const warnings = yamlDoc.errors.filter(e => e.reason === duplicateKeyReason || e.isWarning).map(e => convertError(e))
+	const errors = yamlErrors.filter(e => e.reason !== duplicateKeyReason && !e.isWarning).map(e => convertError(e))
+	const warnings = yamlErrors.filter(e => e.reason === duplicateKeyReason || e.isWarning).map(e => convertError(e))
+
+	errors.forEach(e => _doc.addSyntaxError(e));
+	warnings.forEach(e => _doc.addSyntaxWarning(e));
 
-	errors.forEach(e => _doc.errors.push(e));
-	warnings.forEach(e => _doc.warnings.push(e));
+	_doc.setComments(comments, source);
 
 	return _doc;
 }
 
+/**
+ * What an offset of the stream is on, besides the content of a document: a comment, a directive or a document marker.
+ */
+export type OffsetKind = 'content' | 'comment' | 'directive' | 'separator';
+
+export interface IOffsetLocation {
+	documentIndex: number;
+	document: SingleYAMLDocument;
+	node: ASTNode;
+	kind: OffsetKind;
+}
+
 export class YAMLDocument {
-	public documents: JSONDocument[]
+	public documents: SingleYAMLDocument[]
+	public text: string
+	public lines: number[]
 
-	constructor(documents: JSONDocument[]){
+	constructor(documents: SingleYAMLDocument[], text: string = '', lines: number[] = getLineStartPositions(text)){
 		this.documents = documents;
+		this.text = text;
+		this.lines = lines;
 	}
 
 	get errors(): IError[]{
@@ -292,15 +1604,54 @@ export class YAMLDocument {
 		return (<IError[]>[]).concat(...this.documents.map(d => d.warnings))
 	}
 
-	public getNodeFromOffset(offset: number): ASTNode {
+	/**
+	 * Returns where the given offset is: the document owning it, or -1 if the stream has no documents,
+	 * and the node there if the offset is in the content of the document rather than in a comment,
+	 * a directive or a document marker. Comments and directives before a document belong to it.
+	 */
+	public getOffsetLocation(offset: number): IOffsetLocation {
+		if (!this.documents.length) {
+			return { documentIndex: -1, document: null, node: null, kind: 'content' };
+		}
+
 		// Depends on the documents being sorted
-		for (let element of this.documents) {
-			if (offset <= element.root.end) {
-				return element.getNodeFromOffset(offset)
-			}
+		const boundaries = this.documents.map((doc, index) =>
+			index && getDocumentBoundary(this.text, this.documents[index - 1].end, doc.start, doc.directives));
+		const documentIndex = getDocumentIndex(boundaries, offset);
+		const document = this.documents[documentIndex];
+
+		let kind: OffsetKind = 'content';
+		const lineStart = getLineRange(this.text, offset).start;
+		if (document.comments.some(comment => offset > comment.start && offset <= comment.end)) {
+			kind = 'comment';
+		} else if (document.directives.some(directive => offset >= directive.start && offset <= directive.end)) {
+			kind = 'directive';
+		} else if (documentMarker.test(this.text.substr(lineStart, 4)) && offset <= lineStart + 3) {
+			kind = 'separator';
 		}
 
-		return undefined;
+		return { documentIndex, document, node: kind === 'content' ? document.getNodeFromOffset(offset) : null, kind };
+	}
+
+	/**
+	 * Returns where the document at the given index starts with its first directive or its `---` marker,
+	 * or -1 if it has neither.
+	 */
+	public getDocumentHeaderStart(index: number): number {
+		const document = this.documents[index];
+		const boundary = getDocumentBoundary(this.text, index ? this.documents[index - 1].end : 0, document.start, document.directives);
+		return (document.directives.length || documentStartMarker.test(this.text.substr(boundary, 4))) ? boundary : -1;
+	}
+
+	/**
+	 * Returns the node at the given offset, or null if there is none, as in an empty document, a comment or a directive.
+	 */
+	public getNodeFromOffset(offset: number): ASTNode {
+		return this.getOffsetLocation(offset).node;
+	}
+
+	public getNodeFromOffsetEndInclusive(offset: number): ASTNode {
+		return this.getNodeFromOffset(offset);
 	}
 
 	public validate(schema: JSONSchema, matchingSchemas: IApplicableSchema[] = null, offset: number = -1): void {
@@ -310,13 +1661,380 @@ export class YAMLDocument {
 	}
 }
 
-export function parse(text: string): YAMLDocument {
+const timestampTag: CustomTag = { tag: '!!timestamp', kind: 'scalar' };
+const binaryTag: CustomTag = { tag: '!!binary', kind: 'scalar' };
+
+/**
+ * The standard tags. The parser's own types for them expect plain values rather than
+ * nodes, so the tagged nodes are recorded like application specific ones and scalars
+ * are typed when building the AST.
+ */
+const standardTags: CustomTag[] = [
+	{ tag: '!!str', kind: 'scalar' },
+	{ tag: '!!int', kind: 'scalar' },
+	{ tag: '!!float', kind: 'scalar' },
+	{ tag: '!!bool', kind: 'scalar' },
+	{ tag: '!!null', kind: 'scalar' },
+	timestampTag,
+	binaryTag,
+	{ tag: '!!map', kind: 'mapping' },
+	{ tag: '!!set', kind: 'mapping' },
+	{ tag: '!!seq', kind: 'sequence' },
+	{ tag: '!!omap', kind: 'sequence' },
+	{ tag: '!!pairs', kind: 'sequence' }
+];
+
+function createSchema(customTags: CustomTag[], taggedNodes: Map<Yaml.YAMLNode, CustomTag>): LoaderSchema {
+	const createTag = (tag: string, customTag: CustomTag): LoaderTag => ({
+		tag,
+		kind: customTag.kind,
+		construct: (node: Yaml.YAMLNode) => {
+			if (node) {
+				taggedNodes.set(node, customTag);
+			}
+			return node;
+		}
+	});
+
+	return createLoaderSchema(standardTags.map(standardTag => createTag('tag:yaml.org,2002:' + standardTag.tag.substring(2), standardTag))
+		.concat(customTags.map(customTag => createTag(customTag.tag, customTag))));
+}
+
+/**
+ * A directive preceding a document, such as `%YAML 1.2` or `%TAG !e! tag:example.com:`.
+ * `start` and `end` delimit the directive, without a trailing comment.
+ */
+export interface IDirective {
+	name: string;
+	parameters: string[];
+	start: number;
+	end: number;
+}
+
+const tagHandle = /^!(?:[0-9A-Za-z-]*!)?$/;
+const yamlVersion = /^([0-9]+)\.([0-9]+)$/;
+
+interface Directives {
+	text: string;
+	directives: IDirective[];
+	problems: { error: IError, isWarning: boolean }[];
+}
+
+/**
+ * Returns whether the line starting at the given offset is followed by a document start marker,
+ * past blank lines, comments and lines starting with `%`.
+ */
+function precedesDocumentStart(text: string, lineStart: number): boolean {
+	for (let start = getNextLineStart(text, lineStart); start < text.length; start = getNextLineStart(text, start)) {
+		const line = text.substring(start, getLineEnd(text, start, text.length));
+		if (line[0] !== '%' && !/^\s*(#.*)?$/.test(line)) {
+			return documentStartMarker.test(line);
+		}
+	}
+	return false;
+}
+
+/**
+ * Reads the directives of the stream, the lines starting with `%` before the first document or after
+ * a `...` marker. Within a document, such a line is content, unless a document start marker follows it.
+ * The parser only accepts YAML 1.2 and fails on the first problem of a directive, so the directives are
+ * checked here and blanked in the returned text, except for the first definition of each tag handle,
+ * which the parser expands.
+ */
+function readDirectives(text: string): Directives {
+	const result: Directives = { text, directives: [], problems: [] };
+	if (!/^%/m.test(text)) {
+		return result;
+	}
+
+	const report = (directive: IDirective, message: string, isWarning = false) => {
+		result.problems.push({ error: { message, code: <number>YAMLErrorCode.InvalidDirective, location: { start: directive.start, end: directive.end } }, isWarning });
+	};
+
+	// The directives of a document are the ones since the last content
+	let section: IDirective[] = [];
+	let inDocument = false;
+	const blanked: IDirective[] = [];
+	for (let lineStart = 0; lineStart < text.length; lineStart = getNextLineStart(text, lineStart)) {
+		const line = text.substring(lineStart, getLineEnd(text, lineStart, text.length));
+		if (line[0] !== '%') {
+			if (!/^\s*(#.*)?$/.test(line)) {
+				section = [];
+				inDocument = !documentEndMarker.test(line);
+			}
+			continue;
+		}
+		if (inDocument && !precedesDocumentStart(text, lineStart)) {
+			continue;
+		}
+
+		const content = line.replace(/[ \t]+#.*$/, '').replace(/[ \t]+$/, '');
+		const [name, ...parameters] = content.substring(1).split(/[ \t]+/);
+		const directive: IDirective = { name, parameters, start: lineStart, end: lineStart + content.length };
+		const defined = section.filter(d => d.name === name);
+		result.directives.push(directive);
+		section.push(directive);
+
+		if (inDocument) {
+			blanked.push(directive);
+			report(directive, localize('misplacedDirective', 'A directive must be at the start of the stream or follow a ... document end marker'));
+		} else if (name === 'YAML') {
+			blanked.push(directive);
+			const version = yamlVersion.exec(parameters[0]);
+			if (parameters.length !== 1 || !version) {
+				report(directive, localize('invalidYAMLDirective', 'The %YAML directive expects a version, such as 1.2'));
+			} else if (defined.length) {
+				report(directive, localize('duplicateYAMLDirective', 'The YAML version of the document is already declared'));
+			} else if (version[1] !== '1') {
+				report(directive, localize('unsupportedYAMLVersion', 'YAML version {0} is not supported', parameters[0]));
+			} else if (Number(version[2]) > 2) {
+				report(directive, localize('newerYAMLVersion', 'YAML version {0} is not supported, the document is read as YAML 1.2', parameters[0]), true);
+			}
+		} else if (name === 'TAG') {
+			if (parameters.length !== 2 || !tagHandle.test(parameters[0])) {
+				blanked.push(directive);
+				report(directive, localize('invalidTagDirective', 'The %TAG directive expects a tag handle, such as !e!, and a prefix'));
+			} else if (defined.some(d => d.parameters[0] === parameters[0])) {
+				blanked.push(directive);
+				report(directive, localize('duplicateTagHandle', 'Tag handle {0} is already defined', parameters[0]));
+			}
+		} else {
+			blanked.push(directive);
+			report(directive, localize('unknownDirective', 'Unknown directive %{0} is ignored', name), true);
+		}
+	}
+
+	result.text = blanked.reduce((input, d) => input.substring(0, d.start) + ' '.repeat(d.end - d.start) + input.substring(d.end), text);
+	return result;
+}
+
+/**
+ * Returns the directives of each document, the ones between the previous document and the document.
+ */
+function getDirectivesByDocument(yamlDocs: Yaml.YAMLNode[], directives: IDirective[]): IDirective[][] {
+	let previousEnd = -1;
+	return yamlDocs.map(doc => {
+		const result = directives.filter(d => d.start > previousEnd && d.start < doc.startPosition);
+		previousEnd = Math.max(previousEnd, doc.endPosition);
+		return result;
+	});
+}
+
+/**
+ * Returns the YAML version declared by the directives of a document, if it is supported.
+ */
+function getDocumentVersion(directives: IDirective[], defaultVersion: string): string {
+	const directive = directives.find(d => d.name === 'YAML');
+	const version = directive && yamlVersion.exec(directive.parameters[0]);
+	return (version && version[1] === '1' && directive.parameters.length === 1) ? directive.parameters[0] : defaultVersion;
+}
+
+function parseDocuments(text: string, lines: number[], options: ParserOptions): SingleYAMLDocument[] {
+	const taggedNodes = new Map<Yaml.YAMLNode, CustomTag>();
+	const schema = createSchema(options.customTags || [], taggedNodes);
+	const { text: input, directives, problems } = readDirectives(text);
 
-	const startPositions = getLineStartPositions(text)
 	// This is documented to return a YAMLNode even though the
 	// typing only returns a YAMLDocument
-	const yamlDocs = []
-	Yaml.loadAll(text, doc => yamlDocs.push(doc), {})
+	const load = (input: string): Yaml.YAMLNode[] => {
+		const yamlDocs = []
+		Yaml.loadAll(input, doc => yamlDocs.push(doc), { schema })
+		return yamlDocs
+	}
+
+	const loaded = loadDocuments(input, load)
+	const yamlDocs = loaded.yamlDocs
+	const recovered = recoverDocuments(loaded.text, yamlDocs, load)
+
+	// Report the errors of the original text, the recovered text only provides the tree
+	const yamlErrors = getErrorsByDocument(recovered.yamlDocs, getYamlErrors(yamlDocs))
+	const directivesByDocument = getDirectivesByDocument(recovered.yamlDocs, directives);
+	const boundaries = recovered.yamlDocs.map((doc, index) =>
+		index && getDocumentBoundary(recovered.text, recovered.yamlDocs[index - 1].endPosition, doc.startPosition, directivesByDocument[index]));
+	const commentsByDocument = recovered.yamlDocs.map(() => <IComment[]>[]);
+	// The recovery blanks lines without moving the rest, so the comments of broken lines are read from the original text
+	findComments(text, 0, text.length, getScalarContentRanges(recovered.text, recovered.yamlDocs))
+		.forEach(comment => commentsByDocument[getDocumentIndex(boundaries, comment.start)].push(comment));
+
+	return recovered.yamlDocs.map((doc, index) => {
+		const directives = directivesByDocument[index];
+		const document = createJSONDocument(doc, yamlErrors[index], commentsByDocument[index], lines, text, recovered.text, taggedNodes,
+			getScalarResolution(getDocumentVersion(directives, options.yamlVersion), options.scalarSchema));
+
+		document.directives = directives;
+		loaded.problems.filter(problem => getDocumentIndex(boundaries, problem.location.start) === index).forEach(problem => document.addSyntaxError(problem));
+		problems.filter(problem => directives.some(d => d.start === problem.error.location.start)).forEach(problem => {
+			if (problem.isWarning) {
+				document.addSyntaxWarning(problem.error);
+			} else {
+				document.addSyntaxError(problem.error);
+			}
+		});
+		return document;
+	});
+}
+
+export function parse(text: string, options: ParserOptions = {}): YAMLDocument {
+	const lines = getLineStartPositions(text)
+	return new YAMLDocument(parseDocuments(text, lines, options), text, lines);
+}
+
+
+/**
+ * Returns whether the line starting at the given offset is a document start marker
+ * splitting the stream into parts that can be parsed on their own.
+ */
+function isDocumentBoundary(text: string, lineStart: number): boolean {
+	if (!documentStartMarker.test(text.substr(lineStart, 4))) {
+		return false;
+	}
+	// Directives apply to the document following them
+	return lineStart === 0 || text[getLineRange(text, lineStart - 1).start] !== '%';
+}
+
+function getNextLineStart(text: string, offset: number): number {
+	const end = getLineEnd(text, offset, text.length);
+	return end + (text.substr(end, 2) === '\r\n' ? 2 : 1);
+}
+
+function getNextDocumentBoundary(text: string, lineStart: number): number {
+	while (lineStart < text.length && !isDocumentBoundary(text, lineStart)) {
+		lineStart = getNextLineStart(text, lineStart);
+	}
+	return Math.min(lineStart, text.length);
+}
 
-	return new YAMLDocument(yamlDocs.map(doc => createJSONDocument(doc, startPositions)));
-}
\ No newline at end of file
+function getOffset(position: Position, lines: number[], length: number): number {
+	if (position.line >= lines.length) {
+		return length;
+	} else if (position.line < 0) {
+		return 0;
+	}
+	const lineStart = lines[position.line];
+	const lineEnd = position.line + 1 < lines.length ? lines[position.line + 1] : length;
+	return Math.max(Math.min(lineStart + position.character, lineEnd), lineStart);
+}
+
+/**
+ * Applies the content changes to the text, and returns the result along with the range
+ * covering all the changes, in the offsets of the result.
+ */
+function applyChanges(text: string, lines: number[], changes: TextDocumentContentChangeEvent[]): { text: string, range: IRange } {
+	let range: IRange = null;
+
+	for (const change of changes) {
+		if (!change.range) {
+			text = change.text;
+			range = { start: 0, end: text.length };
+			lines = null;
+			continue;
+		}
+
+		lines = lines || getLineStartPositions(text);
+		const start = getOffset(change.range.start, lines, text.length);
+		const end = getOffset(change.range.end, lines, text.length);
+		const changeEnd = start + change.text.length;
+		const delta = change.text.length - (end - start);
+		text = text.substring(0, start) + change.text + text.substring(end);
+		lines = null;
+
+		if (!range) {
+			range = { start, end: changeEnd };
+		} else {
+			const rangeEnd = range.end >= end ? range.end + delta : Math.min(range.end, changeEnd);
+			range = { start: Math.min(range.start, start), end: Math.max(rangeEnd, changeEnd) };
+		}
+	}
+
+	return { text, range: range || { start: 0, end: 0 } };
+}
+
+/**
+ * Returns whether the document preceding the given offset has syntax errors, in which
+ * case the parser may not have read a document start marker at the offset as such.
+ */
+function hasSyntaxErrorsBefore(documents: SingleYAMLDocument[], offset: number): boolean {
+	const before = documents.filter(doc => doc.start < offset);
+	return before.length > 0 && before[before.length - 1].hasSyntaxErrors();
+}
+
+/**
+ * Parses the text resulting from the given content changes, only parsing again the
+ * documents of the stream affected by the changes. The other documents are shared with
+ * the previous result, except those after the changes that move, which are copied.
+ */
+export function reparse(previous: YAMLDocument, changes: TextDocumentContentChangeEvent[], options: ParserOptions = {}): YAMLDocument {
+	const { text, range } = applyChanges(previous.text, previous.lines, changes);
+	if (!previous.documents.every(doc => doc.start >= 0)) {
+		// The region to parse again is found from the positions of the documents
+		return parse(text, options);
+	}
+	const delta = text.length - previous.text.length;
+	const oldLines = previous.lines;
+
+	// The parsed region starts at the last document start marker before the changes
+	let line = getPosition(range.start, oldLines).line - 1;
+	while (line > 0 && (!isDocumentBoundary(previous.text, oldLines[line]) || hasSyntaxErrorsBefore(previous.documents, oldLines[line]))) {
+		line--;
+	}
+	const regionStartLine = Math.max(line, 0);
+	const regionStart = oldLines[regionStartLine];
+
+	// and ends at the first one after them. The part of the stream following the region is
+	// parsed as well, and the region extended until the parser reads the documents there as before.
+	let regionEnd = getNextDocumentBoundary(text, range.end > 0 && getLineRange(text, range.end).start < range.end ? getNextLineStart(text, range.end) : range.end);
+	let region: SingleYAMLDocument[];
+	let regionLines: number[];
+	while (true) {
+		const followingEnd = regionEnd < text.length ? getNextDocumentBoundary(text, getNextLineStart(text, regionEnd)) : text.length;
+		const regionText = text.substring(regionStart, followingEnd);
+		regionLines = getLineStartPositions(regionText).map(position => position + regionStart);
+		try {
+			region = parseDocuments(regionText, regionLines, options);
+		} catch (e) {
+			// The parser does not handle every malformed text, which may also depend on where it starts
+			return parse(text, options);
+		}
+
+		const following = region.filter(doc => doc.start + regionStart >= regionEnd);
+		const previousFollowing = previous.documents.filter(doc => doc.start >= regionEnd - delta && doc.start <= followingEnd - delta);
+		const unchanged = following.length === previousFollowing.length &&
+			following.every((doc, index) => doc.matches(previousFollowing[index], delta - regionStart));
+
+		regionEnd = followingEnd;
+		if (unchanged || regionEnd === text.length) {
+			break;
+		}
+	}
+	const oldRegionEnd = regionEnd - delta;
+
+	// Shift the line table outside of the region rather than computing it again
+	const lines = oldLines.filter(position => position < regionStart)
+		.concat(regionLines)
+		.concat(oldLines.filter(position => position > oldRegionEnd).map(position => position + delta));
+
+	const before = previous.documents.filter(doc => regionStart > 0 && doc.start <= regionStart);
+	const after = regionEnd < text.length ? previous.documents.filter(doc => doc.start > oldRegionEnd) : [];
+
+	// The parser recovers from syntax errors over the whole stream, so the region is only parsed on its own without
+	// errors, and the documents around it are only kept if they have no errors or the region had none either
+	const hasErrors = (documents: SingleYAMLDocument[]) => documents.some(doc => doc.hasSyntaxErrors());
+	const previousRegion = previous.documents.slice(before.length, previous.documents.length - after.length);
+	if (hasErrors(region) || hasErrors(previousRegion) && hasErrors(before.concat(after))) {
+		return parse(text, options);
+	}
+
+	const lineDelta = lines.length - oldLines.length;
+	const moving = delta !== 0 || lineDelta !== 0 ? after : [];
+	if (!region.concat(moving).every(doc => doc.isPositioned())) {
+		return parse(text, options);
+	}
+
+	region.forEach(doc => doc.move(regionStart, regionStartLine, lines, text));
+
+	// The documents only read the text and lines within their own range, which are the same before the region,
+	// and after it unless the changes move them
+	const moved = moving.length ? moving.map(doc => doc.copy(delta, lineDelta, lines, text)) : after;
+
+	return new YAMLDocument(before.concat(region, moved), text, lines);
+}
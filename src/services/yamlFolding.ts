@@ -0,0 +1,102 @@
+'use strict';
+
+import { TextDocument, FoldingRange, FoldingRangeKind } from 'vscode-languageserver-types';
+import { ASTNode, PropertyASTNode } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { YAMLDocument, YAMLStringASTNode, getContentEnd } from '../parser/yamlParser';
+import { FoldingRangesContext } from '../yamlLanguageService';
+
+interface NestedFoldingRange {
+	range: FoldingRange;
+	depth: number;
+}
+
+function isBlockScalar(node: ASTNode): boolean {
+	const style = (<YAMLStringASTNode>node).style;
+	return node.type === 'string' && (style === 'literal' || style === 'folded');
+}
+
+/**
+ * Returns the folding ranges of a YAML stream: its documents starting with a directive or a `---` marker,
+ * collections and block scalars spanning several lines, from the line of their key, and blocks of comments.
+ * Past the `rangeLimit` of the context, the most nested ranges are left out.
+ */
+export function getFoldingRanges(document: TextDocument, yamlDocument: YAMLDocument, context: FoldingRangesContext = {}): FoldingRange[] {
+	const text = document.getText();
+	const ranges: NestedFoldingRange[] = [];
+
+	const getLine = (offset: number) => document.positionAt(offset).line;
+	const getEndLine = (start: number, end: number) => getLine(getContentEnd(text, start, end));
+	const addRange = (start: number, end: number, depth: number, kind?: string) => {
+		const startLine = getLine(start);
+		const endLine = getEndLine(start, end);
+		if (endLine > startLine) {
+			ranges.push({ range: FoldingRange.create(startLine, endLine, undefined, undefined, kind), depth });
+		}
+	};
+
+	const addNodeRanges = (node: ASTNode, start: number, depth: number) => {
+		if (node.type === 'object' || node.type === 'array') {
+			addRange(start, node.end, depth);
+			for (const child of node.getChildNodes()) {
+				const value = child.type === 'property' ? (<PropertyASTNode>child).value : child;
+				if (value) {
+					addNodeRanges(value, child.start, depth + 1);
+				}
+			}
+		} else if (isBlockScalar(node)) {
+			addRange(start, node.end, depth);
+		}
+	};
+
+	yamlDocument.documents.forEach((doc, index) => {
+		const headerStart = yamlDocument.getDocumentHeaderStart(index);
+		const lastComment = doc.comments[doc.comments.length - 1];
+		const end = Math.max(doc.end, doc.root ? doc.root.end : 0, lastComment ? lastComment.end : 0);
+		if (headerStart !== -1) {
+			addRange(headerStart, end, 0);
+		}
+
+		// The root spans the document, only the collections within it are folded
+		if (doc.root) {
+			for (const child of doc.root.getChildNodes()) {
+				const value = child.type === 'property' ? (<PropertyASTNode>child).value : child;
+				if (value) {
+					addNodeRanges(value, child.start, 1);
+				}
+			}
+		}
+
+		// Comments on their own consecutive lines
+		let block: { start: number, end: number, line: number } = null;
+		for (const comment of doc.comments) {
+			const line = getLine(comment.start);
+			if (text.substring(document.offsetAt({ line, character: 0 }), comment.start).trim()) {
+				continue;
+			}
+			if (block && line === block.line + 1) {
+				block.end = comment.end;
+				block.line = line;
+			} else {
+				if (block) {
+					addRange(block.start, block.end, 1, FoldingRangeKind.Comment);
+				}
+				block = { start: comment.start, end: comment.end, line };
+			}
+		}
+		if (block) {
+			addRange(block.start, block.end, 1, FoldingRangeKind.Comment);
+		}
+	});
+
+	// Editors expect the ranges sorted by their start line, and only fold one range from a line: the outermost
+	let result = ranges.slice().sort((a, b) => a.range.startLine - b.range.startLine || a.depth - b.depth)
+		.filter((range, index, sorted) => !index || sorted[index - 1].range.startLine !== range.range.startLine);
+
+	const rangeLimit = context.rangeLimit;
+	if (typeof rangeLimit === 'number' && result.length > rangeLimit) {
+		const kept = new Set(result.slice().sort((a, b) => a.depth - b.depth).slice(0, rangeLimit));
+		result = result.filter(range => kept.has(range));
+	}
+
+	return result.map(range => range.range);
+}
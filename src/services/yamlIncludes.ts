@@ -0,0 +1,111 @@
+'use strict';
+
+import { TextDocument, Position, Location, Range } from 'vscode-languageserver-types';
+import { IError, ErrorCode } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { YAMLDocument, IncludeASTNode } from '../parser/yamlParser';
+import { PromiseConstructor, Thenable, WorkspaceContextService, IncludeRequestService } from '../yamlLanguageService';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+export class YAMLIncludes {
+	private requestService: IncludeRequestService;
+	private contextService: WorkspaceContextService;
+	private promise: PromiseConstructor;
+	private contents = new Map<string, Thenable<string>>();
+
+	constructor(requestService: IncludeRequestService, contextService: WorkspaceContextService, promiseConstructor: PromiseConstructor) {
+		this.requestService = requestService;
+		this.contextService = contextService;
+		this.promise = promiseConstructor;
+	}
+
+	/**
+	 * Loads and parses the files included by the document, including the files they include in turn.
+	 * Returns the problems encountered, located on the includes of the document.
+	 */
+	public resolveIncludes(uri: string, yamlDocument: YAMLDocument, parse: (text: string) => YAMLDocument): Thenable<IError[]> {
+		return this.resolveDocumentIncludes(uri, yamlDocument, parse, [uri]);
+	}
+
+	/**
+	 * Discards the cached content of the included file. Returns whether it was cached.
+	 */
+	public onResourceChange(uri: string): boolean {
+		return this.contents.delete(uri);
+	}
+
+	public findDefinition(document: TextDocument, position: Position, yamlDocument: YAMLDocument): Location {
+		const offset = document.offsetAt(position);
+
+		for (const doc of yamlDocument.documents) {
+			for (const include of doc.includes) {
+				if (offset >= include.start && offset <= include.end) {
+					return Location.create(this.resolvePath(include.path, document.uri), Range.create(0, 0, 0, 0));
+				}
+			}
+		}
+
+		return null;
+	}
+
+	private resolvePath(path: string, uri: string): string {
+		return this.contextService ? this.contextService.resolveRelativePath(path, uri) : path;
+	}
+
+	// The content of included files is fetched once, until it changes or fails to load
+	private getContent(uri: string): Thenable<string> {
+		let content = this.contents.get(uri);
+		if (!content) {
+			content = this.requestService(uri);
+			this.contents.set(uri, content);
+			content.then(undefined, () => this.contents.delete(uri));
+		}
+		return content;
+	}
+
+	private resolveDocumentIncludes(uri: string, yamlDocument: YAMLDocument, parse: (text: string) => YAMLDocument, chain: string[]): Thenable<IError[]> {
+		if (!this.requestService) {
+			return this.promise.resolve([]);
+		}
+
+		const includes = (<IncludeASTNode[]>[]).concat(...yamlDocument.documents.map(d => d.includes));
+		const resolved = includes.map(include => this.resolveInclude(uri, include, parse, chain));
+
+		return this.promise.all(resolved).then(problems => (<IError[]>[]).concat(...problems));
+	}
+
+	private resolveInclude(uri: string, include: IncludeASTNode, parse: (text: string) => YAMLDocument, chain: string[]): Thenable<IError[]> {
+		const location = { start: include.start, end: include.end };
+		const includeUri = this.resolvePath(include.path, uri);
+		include.value = null;
+
+		if (chain.indexOf(includeUri) !== -1) {
+			return this.promise.resolve([{
+				location,
+				code: ErrorCode.Undefined,
+				message: localize('includeCycle', 'Include cycle: {0}', chain.concat(includeUri).join(' -> '))
+			}]);
+		}
+
+		return this.getContent(includeUri).then(content => {
+			const included = parse(content);
+			const syntaxErrors = included.errors.map(error => ({
+				location,
+				code: error.code,
+				message: localize('includeSyntaxError', 'Syntax error in {0}: {1}', include.path, error.message)
+			}));
+
+			return this.resolveDocumentIncludes(includeUri, included, parse, chain.concat(includeUri)).then(problems => {
+				include.value = included.documents.length ? included.documents[0].root : null;
+
+				// Problems within the included files are reported on the include
+				return syntaxErrors.concat(problems.map(problem => ({ location, code: problem.code, message: problem.message })));
+			});
+		}, error => [{
+			location,
+			code: ErrorCode.Undefined,
+			message: localize('includeLoadError', 'Unable to load {0}: {1}', include.path, error.toString())
+		}]);
+	}
+}
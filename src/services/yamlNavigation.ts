@@ -0,0 +1,64 @@
+'use strict';
+
+import { TextDocument, Position, Location, Range, DocumentHighlight, DocumentHighlightKind } from 'vscode-languageserver-types';
+import { YAMLDocument, AliasASTNode, IAnchor } from '../parser/yamlParser';
+
+function createLocation(document: TextDocument, start: number, end: number): Location {
+	return Location.create(document.uri, Range.create(document.positionAt(start), document.positionAt(end)));
+}
+
+/**
+ * Returns the anchor referred to by the alias or anchor property at the given offset.
+ */
+export function getAnchorAtOffset(yamlDocument: YAMLDocument, offset: number): IAnchor {
+	for (const doc of yamlDocument.documents) {
+		for (const anchor of doc.anchors) {
+			if (offset >= anchor.start && offset <= anchor.end) {
+				return anchor;
+			}
+		}
+
+		for (const alias of doc.aliases) {
+			if (offset >= alias.start && offset <= alias.end) {
+				return alias.anchor;
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Returns the aliases resolving to the given anchor.
+ */
+export function getAliases(yamlDocument: YAMLDocument, anchor: IAnchor): AliasASTNode[] {
+	const result: AliasASTNode[] = [];
+	for (const doc of yamlDocument.documents) {
+		result.push(...doc.aliases.filter(alias => alias.anchor === anchor));
+	}
+	return result;
+}
+
+export function findDefinition(document: TextDocument, position: Position, yamlDocument: YAMLDocument): Location {
+	const anchor = getAnchorAtOffset(yamlDocument, document.offsetAt(position));
+	if (!anchor) {
+		return null;
+	}
+
+	return createLocation(document, anchor.start, anchor.end);
+}
+
+export function findReferences(document: TextDocument, position: Position, yamlDocument: YAMLDocument): Location[] {
+	const anchor = getAnchorAtOffset(yamlDocument, document.offsetAt(position));
+	if (!anchor) {
+		return [];
+	}
+
+	return [createLocation(document, anchor.start, anchor.end)]
+		.concat(getAliases(yamlDocument, anchor).map(alias => createLocation(document, alias.start, alias.end)));
+}
+
+export function findDocumentHighlights(document: TextDocument, position: Position, yamlDocument: YAMLDocument): DocumentHighlight[] {
+	return findReferences(document, position, yamlDocument).map((location, index) =>
+		DocumentHighlight.create(location.range, index === 0 ? DocumentHighlightKind.Write : DocumentHighlightKind.Read));
+}
@@ -0,0 +1,43 @@
+'use strict';
+
+import { TextDocument, Position, Range, TextEdit, WorkspaceEdit } from 'vscode-languageserver-types';
+import { YAMLDocument } from '../parser/yamlParser';
+import { getAnchorAtOffset, getAliases } from './yamlNavigation';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+// Anchor names may contain any non-space character except flow indicators
+const anchorNamePattern = /^[^\s\[\]{},]+$/;
+
+export function isValidAnchorName(name: string): boolean {
+	return anchorNamePattern.test(name);
+}
+
+/**
+ * Renames the anchor at the given position together with all aliases referring to it.
+ * Throws if the new name is not a valid anchor name or is already used by another anchor.
+ */
+export function doRename(document: TextDocument, position: Position, newName: string, yamlDocument: YAMLDocument): WorkspaceEdit {
+	const anchor = getAnchorAtOffset(yamlDocument, document.offsetAt(position));
+	if (!anchor) {
+		return null;
+	}
+
+	if (!isValidAnchorName(newName)) {
+		throw new Error(localize('invalidAnchorName', '"{0}" is not a valid anchor name', newName));
+	}
+
+	const doc = yamlDocument.documents.filter(d => d.anchors.indexOf(anchor) !== -1)[0];
+	if (doc.anchors.some(a => a !== anchor && a.name === newName)) {
+		throw new Error(localize('duplicateAnchorName', 'An anchor named "{0}" already exists', newName));
+	}
+
+	const createEdit = (start: number, end: number, text: string) =>
+		TextEdit.replace(Range.create(document.positionAt(start), document.positionAt(end)), text);
+
+	const edits = [createEdit(anchor.start, anchor.end, '&' + newName)]
+		.concat(getAliases(yamlDocument, anchor).map(alias => createEdit(alias.start, alias.end, '*' + newName)));
+
+	return { changes: { [document.uri]: edits } };
+}
@@ -0,0 +1,128 @@
+'use strict';
+
+import { ASTNode, ObjectASTNode, JSONDocument, IError } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { JSONSchemaService, ResolvedSchema } from 'vscode-json-languageservice/lib/services/jsonSchemaService';
+import { convertSimple2RegExpPattern } from 'vscode-json-languageservice/lib/utils/strings';
+import { SingleYAMLDocument, IComment } from '../parser/yamlParser';
+import { PromiseConstructor, Thenable, SchemaConfiguration, WorkspaceContextService } from '../yamlLanguageService';
+
+/**
+ * A comment such as `# yaml-language-server: $schema=./deploy.schema.json` pins the schema of its document.
+ */
+const modelinePattern = /^\s*yaml-language-server\s*:.*\$schema=(\S+)/;
+
+const absoluteURIPattern = /^[a-zA-Z][\w+.-]*:/;
+
+interface SchemaAssociation {
+	uri: string;
+	modeline: IComment;
+}
+
+interface DocumentSchemaRule {
+	uri: string;
+	fileMatch: RegExp[];
+	documentMatch: { path: string[], value: RegExp }[];
+}
+
+function toRegExp(pattern: string): RegExp {
+	return new RegExp('^' + convertSimple2RegExpPattern(pattern) + '$');
+}
+
+/**
+ * Returns the scalar value at the given path of fields, such as `metadata.name`, or undefined if there is none.
+ */
+function getFieldValue(node: ASTNode, path: string[]): any {
+	for (const key of path) {
+		const property = (node && node.type === 'object') ? (<ObjectASTNode>node).getFirstProperty(key) : null;
+		node = property && property.value;
+	}
+	return (node && node.type !== 'object' && node.type !== 'array') ? node.getValue() : undefined;
+}
+
+/**
+ * Selects the schema of each document of a stream: the schema pinned by the document itself, or else the
+ * schema of the rule matching the values of its fields, so that the documents of a Kubernetes bundle are
+ * for example validated against the schema of their `kind`.
+ */
+export class YAMLSchemaSelection {
+	private schemaService: JSONSchemaService;
+	private contextService: WorkspaceContextService;
+	private promise: PromiseConstructor;
+	private rules: DocumentSchemaRule[] = [];
+
+	constructor(schemaService: JSONSchemaService, contextService: WorkspaceContextService, promiseConstructor: PromiseConstructor) {
+		this.schemaService = schemaService;
+		this.contextService = contextService;
+		this.promise = promiseConstructor;
+	}
+
+	public configure(schemas: SchemaConfiguration[]): void {
+		this.rules = schemas.filter(schema => schema.documentMatch).map(schema => ({
+			uri: schema.uri,
+			fileMatch: (schema.fileMatch || []).map(pattern => new RegExp(convertSimple2RegExpPattern(pattern) + '$')),
+			documentMatch: Object.keys(schema.documentMatch).map(path => ({ path: path.split('.'), value: toRegExp(schema.documentMatch[path]) }))
+		}));
+	}
+
+	/**
+	 * Returns the schema pinned by the document, or else the schema of the first rule matching it. Resolves to null
+	 * if there is none.
+	 */
+	public getSchemaForDocument(resource: string, document: JSONDocument): Thenable<ResolvedSchema> {
+		const doc = (document instanceof SingleYAMLDocument) ? document : null;
+		const association = doc && this.getSchemaAssociation(resource, doc);
+		if (association) {
+			const schema = this.schemaService.registerExternalSchema(association.uri).getResolvedSchema();
+			// A schema failing to load is reported on the modeline pinning it, see getModelineProblem,
+			// and the document is left unchecked rather than checked against the schema of the file
+			return association.modeline ? schema.then(resolved => resolved.errors.length ? new ResolvedSchema({}) : resolved) : schema;
+		}
+
+		const root = doc && doc.root;
+		if (!root) {
+			return this.promise.resolve(null);
+		}
+
+		const rule = this.rules.find(rule =>
+			(!rule.fileMatch.length || rule.fileMatch.some(pattern => pattern.test(resource))) &&
+			rule.documentMatch.every(field => {
+				const value = getFieldValue(root, field.path);
+				return value !== undefined && value !== null && field.value.test(String(value));
+			}));
+
+		return rule ? this.schemaService.getResolvedSchema(rule.uri) : this.promise.resolve(null);
+	}
+
+	/**
+	 * Returns the problem loading the schema pinned by the modeline of the document, located on the modeline.
+	 */
+	public getModelineProblem(resource: string, document: SingleYAMLDocument): Thenable<IError> {
+		const association = this.getSchemaAssociation(resource, document);
+		if (!association || !association.modeline) {
+			return this.promise.resolve(null);
+		}
+
+		const { start, end } = association.modeline;
+		return this.schemaService.registerExternalSchema(association.uri).getResolvedSchema().then(schema =>
+			schema.errors.length ? { location: { start, end }, message: schema.errors[0] } : null);
+	}
+
+	/**
+	 * Returns the schema pinned by a modeline among the comments of the document, or else by its `$schema` key.
+	 */
+	private getSchemaAssociation(resource: string, document: SingleYAMLDocument): SchemaAssociation {
+		for (const comment of document.comments) {
+			const match = modelinePattern.exec(comment.value);
+			if (match) {
+				return { uri: this.resolvePath(match[1], resource), modeline: comment };
+			}
+		}
+
+		const uri = getFieldValue(document.root, ['$schema']);
+		return (typeof uri === 'string' && uri) ? { uri: this.resolvePath(uri, resource), modeline: null } : null;
+	}
+
+	private resolvePath(path: string, resource: string): string {
+		return (this.contextService && !absoluteURIPattern.test(path)) ? this.contextService.resolveRelativePath(path, resource) : path;
+	}
+}
@@ -0,0 +1,23 @@
+'use strict';
+
+import { JSONDocument } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { JSONSchemaService, ResolvedSchema } from 'vscode-json-languageservice/lib/services/jsonSchemaService';
+import { YAMLSchemaSelection } from './yamlSchemaSelection';
+import { PromiseConstructor, Thenable, SchemaRequestService, WorkspaceContextService } from '../yamlLanguageService';
+
+/**
+ * The schema service of the language service: the schema of a document is the one selected for the document
+ * itself, or else the one associated with its file.
+ */
+export class YAMLSchemaService extends JSONSchemaService {
+	public readonly selection: YAMLSchemaSelection;
+
+	constructor(requestService: SchemaRequestService, contextService?: WorkspaceContextService, promiseConstructor?: PromiseConstructor) {
+		super(requestService, contextService, promiseConstructor);
+		this.selection = new YAMLSchemaSelection(this, contextService, this.promise);
+	}
+
+	public getSchemaForResource(resource: string, document: JSONDocument): Thenable<ResolvedSchema> {
+		return this.selection.getSchemaForDocument(resource, document).then(schema => schema || super.getSchemaForResource(resource, document));
+	}
+}
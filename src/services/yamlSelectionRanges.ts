@@ -0,0 +1,67 @@
+'use strict';
+
+import { TextDocument, Position, Range } from 'vscode-languageserver-types';
+import { ASTNode } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { YAMLDocument, YAMLStringASTNode, getContentEnd } from '../parser/yamlParser';
+import { SelectionRange } from '../yamlLanguageService';
+
+// Block collections extend over the blank lines and comments after their last entry
+const blankOrComments = /^(?:\s|#[^\r\n]*)*$/;
+
+function getEnd(node: ASTNode, text: string): number {
+	const children = node.getChildNodes();
+	const last = children[children.length - 1];
+	return (last && blankOrComments.test(text.substring(last.end, node.end))) ? getEnd(last, text) : node.end;
+}
+
+/**
+ * Returns the selection ranges at the given positions: the node there, the content of a quoted scalar first,
+ * then each of its ancestors, such as its key/value pair, the mapping containing it and the sequence item
+ * holding that mapping, and last the whole document.
+ */
+export function getSelectionRanges(document: TextDocument, positions: Position[], yamlDocument: YAMLDocument): SelectionRange[] {
+	const text = document.getText();
+
+	return positions.map(position => {
+		const offset = document.offsetAt(position);
+		// Each range contains the position, even when it is in the whitespace a range is trimmed of
+		const getRange = (start: number, end: number) =>
+			Range.create(document.positionAt(Math.min(start, offset)), document.positionAt(Math.max(getContentEnd(text, start, end), offset)));
+		const location = yamlDocument.getOffsetLocation(offset);
+		const doc = location.document;
+		if (!doc) {
+			return { range: Range.create(position, position) };
+		}
+
+		const ranges: Range[] = [];
+		let node: ASTNode = (location.kind === 'content' && doc.root) ? doc.root.getNodeFromOffsetEndInclusive(offset) : null;
+		const contentRange = node && (<YAMLStringASTNode>node).contentRange;
+		if (node && node.type === 'string' && contentRange && contentRange.start <= offset && offset <= contentRange.end) {
+			ranges.push(getRange(contentRange.start, contentRange.end));
+		}
+		for (; node; node = node.parent) {
+			ranges.push(getRange(node.start, getEnd(node, text)));
+		}
+
+		// The document spans its header and its comments
+		const headerStart = yamlDocument.getDocumentHeaderStart(location.documentIndex);
+		const offsets = doc.comments.map(comment => comment.start).concat(doc.start, doc.root ? doc.root.start : doc.start);
+		const ends = doc.comments.map(comment => comment.end).concat(doc.end, doc.root ? doc.root.end : doc.end);
+		ranges.push(getRange(headerStart !== -1 ? headerStart : Math.min(...offsets), Math.max(...ends)));
+
+		// From the outermost range, leaving out the ranges equal to their parent
+		let result: SelectionRange = null;
+		for (let i = ranges.length - 1; i >= 0; i--) {
+			const range = ranges[i];
+			if (!result || !sameRange(result.range, range)) {
+				result = result ? { range, parent: result } : { range };
+			}
+		}
+		return result;
+	});
+}
+
+function sameRange(a: Range, b: Range): boolean {
+	return a.start.line === b.start.line && a.start.character === b.start.character &&
+		a.end.line === b.end.line && a.end.character === b.end.character;
+}
@@ -0,0 +1,87 @@
+'use strict';
+
+import { TextDocument, Range, DocumentSymbol, SymbolKind } from 'vscode-languageserver-types';
+import { ASTNode, ObjectASTNode, PropertyASTNode } from 'vscode-json-languageservice/lib/parser/jsonParser';
+import { YAMLDocument, getContentEnd } from '../parser/yamlParser';
+
+import * as nls from 'vscode-nls';
+const localize = nls.loadMessageBundle();
+
+function getSymbolKind(nodeType: string): SymbolKind {
+	switch (nodeType) {
+		case 'object':
+			return SymbolKind.Module;
+		case 'string':
+			return SymbolKind.String;
+		case 'number':
+			return SymbolKind.Number;
+		case 'array':
+			return SymbolKind.Array;
+		case 'boolean':
+			return SymbolKind.Boolean;
+		default:
+			return SymbolKind.Variable;
+	}
+}
+
+function getScalarProperty(node: ASTNode, key: string): ASTNode {
+	const property = (node && node.type === 'object') ? (<ObjectASTNode>node).getFirstProperty(key) : null;
+	const value = property && property.value;
+	return (value && value.type !== 'object' && value.type !== 'array' && value.type !== 'null') ? value : null;
+}
+
+/**
+ * Returns the name identifying a mapping, `kind/metadata.name` as in Kubernetes resources or else
+ * its `name`, and the node holding the name.
+ */
+function getIdentity(node: ASTNode): { name: string, node: ASTNode } {
+	const kind = getScalarProperty(node, 'kind');
+	const metadata = node && node.type === 'object' ? (<ObjectASTNode>node).getFirstProperty('metadata') : null;
+	const metadataName = metadata && getScalarProperty(metadata.value, 'name');
+	if (kind && metadataName) {
+		return { name: `${kind.getValue()}/${metadataName.getValue()}`, node: metadataName };
+	}
+
+	const name = getScalarProperty(node, 'name');
+	return name ? { name: String(name.getValue()), node: name } : null;
+}
+
+/**
+ * Returns the symbols of a YAML stream, one for each document, named after the identity of its root
+ * mapping if it has one. The symbols of the entries of collections are nested within it, the items
+ * of sequences being named after their identity or their index.
+ */
+export function findDocumentSymbols(document: TextDocument, yamlDocument: YAMLDocument): DocumentSymbol[] {
+	const text = document.getText();
+	const getRange = (start: number, end: number) => Range.create(document.positionAt(start), document.positionAt(getContentEnd(text, start, end)));
+
+	const getChildren = (node: ASTNode): DocumentSymbol[] => {
+		if (node.type === 'object') {
+			return node.getChildNodes().map((property: PropertyASTNode) => {
+				const value = property.value;
+				const range = getRange(property.start, property.end);
+				return DocumentSymbol.create(property.key.value, undefined, getSymbolKind(value ? value.type : 'null'), range,
+					getRange(property.key.start, property.key.end), value ? getChildren(value) : []);
+			});
+		} else if (node.type === 'array') {
+			// Scalar items are only values, as in the JSON outline
+			return node.getChildNodes().map((item, index) => {
+				if (item.type !== 'object' && item.type !== 'array') {
+					return null;
+				}
+				const identity = getIdentity(item);
+				const range = getRange(item.start, item.end);
+				return DocumentSymbol.create(identity ? identity.name : String(index), undefined, getSymbolKind(item.type), range,
+					identity ? getRange(identity.node.start, identity.node.end) : range, getChildren(item));
+			}).filter(symbol => symbol);
+		}
+		return [];
+	};
+
+	return yamlDocument.documents.map((doc, index) => {
+		const identity = getIdentity(doc.root);
+		const range = getRange(doc.root ? Math.min(doc.start, doc.root.start) : doc.start, doc.root ? Math.max(doc.end, doc.root.end) : doc.end);
+		return DocumentSymbol.create(identity ? identity.name : localize('documentSymbol', 'Document {0}', index + 1), undefined, SymbolKind.File, range,
+			identity ? getRange(identity.node.start, identity.node.end) : range, doc.root ? getChildren(doc.root) : []);
+	});
+}
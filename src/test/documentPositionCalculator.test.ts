@@ -25,6 +25,12 @@ suite('Document Position Calculator', () => {
 
             assert.strictEqual(calc.binarySearch(array, 2.5), calc.insertionPointReturnValue(2))
         })
+
+        test('insertion point after narrowing past the bounds', function () {
+            const array = [0, 8, 14, 21, 24, 35, 41, 53, 59, 60, 81]
+
+            assert.strictEqual(calc.binarySearch(array, 15), calc.insertionPointReturnValue(3))
+        })
     })
 
     suite('getLineStartPositions', () => {
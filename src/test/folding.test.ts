@@ -0,0 +1,104 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument, FoldingRangeKind } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { getFoldingRanges } from '../services/yamlFolding';
+import { FoldingRangesContext } from '../yamlLanguageService';
+
+suite('Folding Ranges', () => {
+
+	// The ranges as [startLine, endLine] or [startLine, endLine, kind]
+	function getRanges(lines: string[], context?: FoldingRangesContext) {
+		const text = lines.join('\n');
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		return getFoldingRanges(document, parse(text), context)
+			.map(range => range.kind ? [range.startLine, range.endLine, range.kind] : [range.startLine, range.endLine]);
+	}
+
+	test('collections fold from the line of their key', () => {
+		const ranges = getRanges([
+			'a:',
+			'  b: 1',
+			'  c:',
+			'    - x',
+			'    - y',
+			'd: [1, 2]',
+			'e: {',
+			'  f: 1 }',
+			''
+		]);
+		assert.deepEqual(ranges, [[0, 4], [2, 4], [6, 7]]);
+	});
+
+	test('items of sequences', () => {
+		const ranges = getRanges([
+			'steps:',
+			'  - name: build',
+			'    run: make',
+			'  - name: test',
+			'    with:',
+			'      args: all',
+			''
+		]);
+		assert.deepEqual(ranges, [[0, 5], [1, 2], [3, 5], [4, 5]]);
+	});
+
+	test('block scalars spanning several lines', () => {
+		const ranges = getRanges([
+			'script: |',
+			'  echo one',
+			'  echo two',
+			'',
+			'single: >',
+			'  folded',
+			'plain: text'
+		]);
+		assert.deepEqual(ranges, [[0, 2], [4, 5]]);
+	});
+
+	test('blocks of comments', () => {
+		const ranges = getRanges([
+			'# one',
+			'# two',
+			'a: 1 # three',
+			'# four',
+			'',
+			'  # five',
+			'  # six'
+		]);
+		assert.deepEqual(ranges, [[0, 1, FoldingRangeKind.Comment], [5, 6, FoldingRangeKind.Comment]]);
+	});
+
+	test('documents with a marker or directives', () => {
+		const ranges = getRanges([
+			'a: 1',
+			'b: 2',
+			'---',
+			'c: 1',
+			'...',
+			'%YAML 1.2',
+			'---',
+			'd: 1',
+			'# end'
+		]);
+		assert.deepEqual(ranges, [[2, 3], [5, 8]]);
+	});
+
+	test('outermost ranges are kept within the range limit', () => {
+		const lines = [
+			'a:',
+			'  b:',
+			'    c: 1',
+			'    d: 2',
+			'e:',
+			'  - 1',
+			'  - 2'
+		];
+		assert.deepEqual(getRanges(lines, { rangeLimit: 2 }), [[0, 3], [4, 6]]);
+		assert.deepEqual(getRanges(lines, { rangeLimit: 1 }), [[0, 3]]);
+		assert.deepEqual(getRanges(lines, {}), [[0, 3], [1, 3], [4, 6]]);
+	});
+});
@@ -0,0 +1,111 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument, Location, Range } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { YAMLIncludes } from '../services/yamlIncludes';
+
+suite('Includes', () => {
+
+	const files: { [uri: string]: string } = {
+		'test://jobs/build.yaml': 'image: node\nscript: !include ./script.yaml',
+		'test://jobs/script.yaml': '- npm install\n- npm test',
+		'test://cycle/a.yaml': 'b: !include b.yaml',
+		'test://cycle/b.yaml': 'a: !include a.yaml',
+		'test://broken/main.yaml': 'a: 1\n b: 2'
+	};
+
+	const requestService = (uri: string) => files[uri] !== undefined ? Promise.resolve(files[uri]) : Promise.reject(`${uri} not found`);
+	const workspaceContext = {
+		resolveRelativePath: (relativePath: string, resource: string) => resource.substr(0, resource.lastIndexOf('/') + 1) + relativePath.replace(/^\.\//, '')
+	};
+
+	function resolveIncludes(uri: string, text: string) {
+		const yamlDocument = parse(text);
+		const includes = new YAMLIncludes(requestService, workspaceContext, Promise);
+		return includes.resolveIncludes(uri, yamlDocument, parse).then(problems => ({ yamlDocument, problems }));
+	}
+
+	test('loads included files', () => {
+		return resolveIncludes('test://jobs/pipeline.yaml', 'build: !include build.yaml').then(({ yamlDocument, problems }) => {
+			assert.deepStrictEqual(problems, []);
+			assert.deepEqual(yamlDocument.documents[0].root.getValue(), {
+				build: { image: 'node', script: ['npm install', 'npm test'] }
+			});
+		});
+	});
+
+	test('validates included content', () => {
+		const text = 'build: !include build.yaml';
+		return resolveIncludes('test://jobs/pipeline.yaml', text).then(({ yamlDocument }) => {
+			yamlDocument.validate({ properties: { build: { properties: { script: { type: 'string' } } } } });
+
+			assert.deepStrictEqual(yamlDocument.warnings.map(w => [w.location.start, w.location.end]), [[text.indexOf('build.yaml'), text.length]]);
+		});
+	});
+
+	test('reports missing files', () => {
+		const text = 'build: !include missing.yaml';
+		return resolveIncludes('test://jobs/pipeline.yaml', text).then(({ yamlDocument, problems }) => {
+			assert.strictEqual(problems.length, 1);
+			assert.deepStrictEqual(problems[0].location, { start: text.indexOf('missing.yaml'), end: text.length });
+			assert.strictEqual(yamlDocument.documents[0].root.getValue().build, null);
+		});
+	});
+
+	test('reports include cycles', () => {
+		return resolveIncludes('test://cycle/a.yaml', files['test://cycle/a.yaml']).then(({ problems }) => {
+			assert.strictEqual(problems.length, 1);
+			assert.ok(problems[0].message.indexOf('test://cycle/a.yaml -> test://cycle/b.yaml -> test://cycle/a.yaml') !== -1);
+		});
+	});
+
+	test('reports syntax errors of included files', () => {
+		const text = 'main: !include main.yaml';
+		return resolveIncludes('test://broken/pipeline.yaml', text).then(({ problems }) => {
+			assert.ok(problems.length > 0);
+			problems.forEach(problem => {
+				assert.deepStrictEqual(problem.location, { start: text.indexOf('main.yaml'), end: text.length });
+				assert.ok(problem.message.indexOf('main.yaml') !== -1);
+			});
+		});
+	});
+
+	test('fetches included files once until they change', () => {
+		const requested: string[] = [];
+		const countingService = (uri: string) => {
+			requested.push(uri);
+			return requestService(uri);
+		};
+		const includes = new YAMLIncludes(countingService, workspaceContext, Promise);
+		const resolve = () => includes.resolveIncludes('test://jobs/pipeline.yaml', parse('build: !include build.yaml\nother: !include missing.yaml'), parse);
+
+		return resolve().then(() => resolve()).then(() => {
+			assert.deepStrictEqual(requested.sort(), ['test://jobs/build.yaml', 'test://jobs/missing.yaml', 'test://jobs/missing.yaml', 'test://jobs/script.yaml']);
+			assert.strictEqual(includes.onResourceChange('test://jobs/script.yaml'), true);
+			return resolve();
+		}).then(() => {
+			assert.strictEqual(requested.filter(uri => uri === 'test://jobs/script.yaml').length, 2);
+		});
+	});
+
+	test('does nothing without a request service', () => {
+		const yamlDocument = parse('build: !include build.yaml');
+		return new YAMLIncludes(undefined, workspaceContext, Promise).resolveIncludes('test://jobs/pipeline.yaml', yamlDocument, parse).then(problems => {
+			assert.deepStrictEqual(problems, []);
+			assert.strictEqual(yamlDocument.documents[0].root.getValue().build, null);
+		});
+	});
+
+	test('findDefinition opens the included file', () => {
+		const text = 'build: !include build.yaml\nother: value';
+		const document = TextDocument.create('test://jobs/pipeline.yaml', 'yaml', 0, text);
+		const includes = new YAMLIncludes(requestService, workspaceContext, Promise);
+
+		assert.deepStrictEqual(includes.findDefinition(document, document.positionAt(text.indexOf('build.yaml') + 2), parse(text)),
+			Location.create('test://jobs/build.yaml', Range.create(0, 0, 0, 0)));
+		assert.strictEqual(includes.findDefinition(document, document.positionAt(text.indexOf('other')), parse(text)), null);
+	});
+});
@@ -0,0 +1,95 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument, Location, Range, DocumentHighlightKind } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { findDefinition, findReferences, findDocumentHighlights } from '../services/yamlNavigation';
+
+suite('Navigation', () => {
+
+	function createDocument(text: string) {
+		return TextDocument.create('test://test.yaml', 'yaml', 0, text);
+	}
+
+	suite('findDefinition', () => {
+		function assertDefinition(text: string, offset: number, expected: [number, number]) {
+			const document = createDocument(text);
+			const result = findDefinition(document, document.positionAt(offset), parse(text));
+			const expectedLocation = expected && Location.create(document.uri, Range.create(document.positionAt(expected[0]), document.positionAt(expected[1])));
+			assert.deepStrictEqual(result, expectedLocation);
+		}
+
+		test('alias to anchor', () => {
+			const text = 'build: &build_template\n  image: node\njob:\n  <<: *build_template';
+			const anchor = text.indexOf('&build_template');
+			const expected: [number, number] = [anchor, anchor + '&build_template'.length];
+
+			assertDefinition(text, text.indexOf('*build_template'), expected);
+			assertDefinition(text, text.indexOf('*build_template') + 5, expected);
+			assertDefinition(text, text.length, expected);
+		});
+
+		test('anchor to itself', () => {
+			const text = 'a: &value 1\nb: *value';
+			assertDefinition(text, 5, [3, 9]);
+		});
+
+		test('stays within the YAML document', () => {
+			const text = 'a: &value 1\n---\na: &value 2\nb: *value';
+			const anchor = text.lastIndexOf('&value');
+			assertDefinition(text, text.indexOf('*value') + 1, [anchor, anchor + 6]);
+		});
+
+		test('nothing outside of aliases', () => {
+			const text = 'a: &value 1\nb: *value\nc: *missing';
+			assertDefinition(text, 0, null);
+			assertDefinition(text, text.indexOf('1'), null);
+			assertDefinition(text, text.indexOf('*missing') + 1, null);
+		});
+	});
+
+	suite('findReferences', () => {
+		const text = 'base: &base\n  a: 1\nfirst: *base\nsecond:\n  <<: *base\nthird: &base 2\nfourth: *base';
+
+		function offsets(document: TextDocument, locations: Location[]) {
+			return locations.map(l => document.offsetAt(l.range.start));
+		}
+
+		test('anchor and aliases', () => {
+			const document = createDocument(text);
+			const yamlDocument = parse(text);
+			const expected = [text.indexOf('&base'), text.indexOf('*base'), text.indexOf('<<: *base') + 4];
+
+			assert.deepStrictEqual(offsets(document, findReferences(document, document.positionAt(text.indexOf('&base') + 1), yamlDocument)), expected);
+			assert.deepStrictEqual(offsets(document, findReferences(document, document.positionAt(text.indexOf('*base') + 1), yamlDocument)), expected);
+		});
+
+		test('redefined anchor', () => {
+			const document = createDocument(text);
+			const expected = [text.lastIndexOf('&base'), text.lastIndexOf('*base')];
+
+			assert.deepStrictEqual(offsets(document, findReferences(document, document.positionAt(text.length), parse(text))), expected);
+		});
+
+		test('nothing outside of anchors', () => {
+			const document = createDocument(text);
+			assert.deepStrictEqual(findReferences(document, document.positionAt(0), parse(text)), []);
+		});
+	});
+
+	suite('findDocumentHighlights', () => {
+		test('anchor is written, aliases are read', () => {
+			const text = 'a: &value 1\nb: *value\nc: [*value]';
+			const document = createDocument(text);
+			const highlights = findDocumentHighlights(document, document.positionAt(text.indexOf('*value')), parse(text));
+
+			assert.deepStrictEqual(highlights.map(h => [document.offsetAt(h.range.start), document.offsetAt(h.range.end), h.kind]), [
+				[3, 9, DocumentHighlightKind.Write],
+				[15, 21, DocumentHighlightKind.Read],
+				[26, 32, DocumentHighlightKind.Read]
+			]);
+		});
+	});
+});
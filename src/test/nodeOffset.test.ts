@@ -27,9 +27,51 @@ suite("Get Node from Offset", () => {
         assertNameAndType(9, [], "property")
 
         assertNameAndType(10, ["outer", "inner"], "string")
-        // TODO: These should both be object
-        // assertNameAndType(19, [], "property") //https://github.com/mulesoft-labs/yaml-ast-parser/issues/25
-        // assertNameAndType(21, ["outer"], "property") //https://github.com/mulesoft-labs/yaml-ast-parser/issues/25
+        assertNameAndType(18, [], "object")
+        assertNameAndType(19, [], "object")
+        assertNameAndType(20, ["outer"], "object")
+        assertNameAndType(21, ["outer"], "property")
+    })
+
+    // The offset is given by a | in the text
+    const getNode = (text: string) => {
+        const offset = text.indexOf('|')
+        return YamlParser.parse(text.replace('|', '')).documents[0].getNodeFromOffset(offset)
+    }
+
+    const assertNode = (text: string, type: string, path: (string | number)[]) => {
+        const node = getNode(text)
+        assert.deepEqual([node.type, node.getPath()], [type, path], text)
+    }
+
+    test('after a key', function () {
+        assertNode('a: |', "property", [])
+        assertNode('a:\n  b: |\nc: 1', "property", ["a"])
+        assertNode('a:\n  b: |1\nc: 1', "number", ["a", "b"])
+        assertNode('a: b|', "string", ["a"])
+    })
+
+    test('on an empty item', function () {
+        assertNode('- a\n- |', "array", [])
+        assertNode('a:\n  - |\n  - b', "array", ["a"])
+        assertNode('a:\n  - b\n  - |\nc: 1', "array", ["a"])
+        assertNode('- - a\n  - |', "array", [0])
+    })
+
+    test('on an indented empty line', function () {
+        const text = 'a:\n  b:\n    c: 1\n{indent}|\nd: 2'
+        assertNode(text.replace('{indent}', ''), "object", [])
+        assertNode(text.replace('{indent}', '  '), "object", ["a"])
+        assertNode(text.replace('{indent}', '   '), "object", ["a"])
+        assertNode('a:\n  b:\n    |\nc: 2', "property", ["a"])
+        assertNode(text.replace('{indent}', '    '), "object", ["a", "b"])
+        assertNode('a:\n  - b: 1\n    |\n', "object", ["a", 0])
+        assertNode('a:\n  - b: 1\n  |\n', "array", ["a"])
+    })
+
+    test('on an empty line within a flow collection', function () {
+        assertNode('a: [1,\n |\n  2]', "array", ["a"])
+        assertNode('a: [1]\n  |\n', "object", [])
     })
 
     test('Multiple Documents', function(){
@@ -46,4 +88,35 @@ value: 2
         assert.deepStrictEqual(node.getPath(), ["value"])
         assert.deepEqual(node.type, "string")
     })
+
+    test('Empty documents', function () {
+        const input = '---\n---\na: 1\n---\n'
+        const document = YamlParser.parse(input)
+
+        assert.strictEqual(document.getNodeFromOffset(1), null)
+        assert.strictEqual(document.getNodeFromOffset(input.length).type, 'null')
+        assert.deepStrictEqual(document.getNodeFromOffset(input.indexOf('1')).getValue(), 1)
+        assert.strictEqual(YamlParser.parse('').getNodeFromOffset(0), null)
+    })
+
+    test('Offset locations', function () {
+        const input = '%YAML 1.2\n---\na: 1 # one\n...\n# two\n---\nb: 2\n'
+        const document = YamlParser.parse(input)
+
+        const assertLocation = (offset: number, documentIndex: number, kind: string, value?: any) => {
+            const location = document.getOffsetLocation(offset)
+            assert.deepEqual([location.documentIndex, location.kind], [documentIndex, kind], `${offset}`)
+            assert.strictEqual(location.document, document.documents[documentIndex])
+            assert.deepEqual(location.node && location.node.getValue(), value, `${offset}`)
+        }
+
+        assertLocation(2, 0, 'directive', null)
+        assertLocation(input.indexOf('---'), 0, 'separator', null)
+        assertLocation(input.indexOf('a: 1') + 3, 0, 'content', 1)
+        assertLocation(input.indexOf('one'), 0, 'comment', null)
+        assertLocation(input.indexOf('...') + 1, 0, 'separator', null)
+        assertLocation(input.indexOf('two'), 0, 'comment', null)
+        assertLocation(input.lastIndexOf('2'), 1, 'content', 2)
+        assert.deepEqual(YamlParser.parse('').getOffsetLocation(0), { documentIndex: -1, document: null, node: null, kind: 'content' })
+    })
 })
\ No newline at end of file
@@ -11,6 +11,8 @@ import YamlParser = require('../parser/yamlParser');
 import Parser = require('vscode-json-languageservice/lib/parser/jsonParser');
 import SchemaService = require('vscode-json-languageservice/lib/services/jsonSchemaService');
 import JsonSchema = require('vscode-json-languageservice/lib/jsonSchema');
+import { Range, TextDocument } from 'vscode-languageserver-types';
+import { getLineStartPositions } from '../documentPositionCalculator';
 
 suite('YAML Parser', () => {
 
@@ -131,7 +133,7 @@ suite('YAML Parser', () => {
 		assert.equal(node.type, 'object');
 		assert.deepEqual(node.getPath(), []);
 
-		assert.deepStrictEqual(result.getNodeFromOffset(2), /*null*/ new Parser.ObjectASTNode(null, null, 0, 2));
+		assert.deepStrictEqual(result.getNodeFromOffset(2), /*null*/ new YamlParser.YAMLObjectASTNode(null, null, 0, 2));
 		result = YamlParser.parse('[null]');
 		assert.strictEqual(result.errors.length, 0);
 
@@ -227,7 +229,7 @@ suite('YAML Parser', () => {
 		result = YamlParser.parse(content).documents[0];
 
 		node = result.getNodeFromOffset(content.length - 2);
-		assert.equal(node.type, /*'object'*/ 'property');
+		assert.equal(node.type, 'object');
 
 		node = result.getNodeFromOffset(content.length - 4);
 		assert.equal(node.type, 'boolean');
@@ -239,7 +241,28 @@ suite('YAML Parser', () => {
 		var result = YamlParser.parse(content).documents[0];
 		assert.equal(result.errors.length, 1);
 		assert.equal(result.errors[0].location.start, content.indexOf('32'));
-		assert.equal(result.errors[0].location.end, content.length);
+		assert.equal(result.errors[0].location.end, content.indexOf('32') + 2);
+	});
+
+	test('Errors are limited to the offending token or line', function () {
+
+		const assertError = (content: string, expected: string, code: number) => {
+			const error = YamlParser.parse(content).errors[0];
+			assert.strictEqual(content.substring(error.location.start, error.location.end), expected, content);
+			assert.strictEqual(error.code, code, content);
+		}
+
+		assertError('a: 1\n b: 2\nc: 3', 'b: 2', YamlParser.YAMLErrorCode.BadIndentation);
+		assertError('- 1\n-2\n- 3', '-2', YamlParser.YAMLErrorCode.UnexpectedContent);
+		assertError('a: *missing\nb: 2', '*missing', YamlParser.YAMLErrorCode.UnresolvedAlias);
+		assertError('a: !unknown value\nb: 2', '!unknown value', YamlParser.YAMLErrorCode.UnknownTag);
+		assertError('["\\z"]', '\\z', Parser.ErrorCode.InvalidEscapeCharacter);
+		assertError('{"key" 3}', '3', YamlParser.YAMLErrorCode.MissingComma);
+		assertError('[1, 2', '2', YamlParser.YAMLErrorCode.UnexpectedEndOfStream);
+
+		const duplicate = YamlParser.parse('a: 1\na: 2').warnings[0];
+		assert.deepStrictEqual(duplicate.location, { start: 5, end: 6 });
+		assert.strictEqual(duplicate.code, YamlParser.YAMLErrorCode.DuplicateKey);
 	});
 
 	test('Errors at the end of the file', function () {
@@ -258,8 +281,8 @@ suite('YAML Parser', () => {
 		assert.equal(result.errors.length, 0);
 		var node = result.getNodeFromOffset(content.indexOf('32,\n') + 4);
 
-		assert.equal(node.type, /*'object'*/'property');
-		var keyList = (<Parser.ObjectASTNode>node.parent).getKeyList();
+		assert.equal(node.type, 'object');
+		var keyList = (<Parser.ObjectASTNode>node).getKeyList();
 		assert.deepEqual(keyList, ['key', 'key2']);
 	});
 
@@ -1361,8 +1384,8 @@ suite('YAML Parser', () => {
 			assert.equal(result.errors.length, expectedErrors);
 		}
 
-		assertParse('// comment\n{\n"far": "boo"\n}', 4);
-		assertParse('/* comm\nent\nent */\n{\n"far": "boo"\n}', 4);
+		assertParse('// comment\n{\n"far": "boo"\n}', 2);
+		assertParse('/* comm\nent\nent */\n{\n"far": "boo"\n}', 2);
 		assertParse('{\n"far": "boo"\n}', 0);
 	});
 
@@ -1380,6 +1403,633 @@ suite('YAML Parser', () => {
 			isInvalid('- bar: *foo')
 			isInvalid('- foo: &ref 5\n- bar: *re')
 		})
+
+		test('records anchors and aliases', function () {
+			const input = 'base: &base\n  a: 1\nother: *base\nlist: [&item 1, *item]'
+			const document = YamlParser.parse(input).documents[0]
+
+			assert.deepStrictEqual(document.anchors.map(a => [a.name, a.start, a.end]), [
+				['base', input.indexOf('&base'), input.indexOf('&base') + 5],
+				['item', input.indexOf('&item'), input.indexOf('&item') + 5]
+			])
+			assert.deepStrictEqual(document.aliases.map(a => [a.name, a.start, a.end]), [
+				['base', input.indexOf('*base'), input.indexOf('*base') + 5],
+				['item', input.indexOf('*item'), input.indexOf('*item') + 5]
+			])
+
+			const alias = document.getNodeFromOffset(input.indexOf('*base') + 1)
+			assert.strictEqual(alias.type, 'alias')
+			assert.deepStrictEqual(alias.getPath(), ['other'])
+			assert.strictEqual((<YamlParser.AliasASTNode>alias).anchor, document.anchors[0])
+			assert.strictEqual(document.anchors[0].node, document.getNodeFromOffset(input.indexOf('a: 1')).parent.parent)
+		})
+
+		test('resolves to the latest anchor of the same name', function () {
+			const document = YamlParser.parse('- &a 1\n- *a\n- &a 2\n- *a').documents[0]
+
+			assert.deepStrictEqual(document.aliases.map(a => a.anchor.node.getValue()), [1, 2])
+			assert.deepStrictEqual(document.root.getValue(), [1, 1, 2, 2])
+		})
+
+		test('does not expand recursive aliases', function () {
+			const document = YamlParser.parse('a: &a [*a]').documents[0]
+
+			assert.deepEqual(document.root.getValue(), { a: [null] })
+		})
+
+		test('reports problems on the alias', function () {
+			const input = 'number: &value hello\nalias: *value'
+			const document = YamlParser.parse(input)
+
+			document.validate({ properties: { alias: { type: 'number' } } })
+
+			assert.strictEqual(document.warnings.length, 1)
+			assert.strictEqual(document.warnings[0].location.start, input.indexOf('*value'))
+			assert.strictEqual(document.warnings[0].location.end, input.length)
+		})
+	})
+
+	suite('merge keys', () => {
+		const schema: JsonSchema.JSONSchema = {
+			type: 'object',
+			properties: {
+				job: {
+					type: 'object',
+					required: ['image', 'script'],
+					properties: {
+						image: { type: 'string' },
+						script: { type: 'string' },
+						stage: { type: 'string' }
+					},
+					additionalProperties: false
+				}
+			}
+		};
+
+		test('merges aliased mappings', function () {
+			const input = 'base: &base\n  image: node\n  stage: test\njob:\n  <<: *base\n  script: run'
+			isValid(input)
+
+			const document = YamlParser.parse(input)
+			assert.deepEqual(document.documents[0].root.getValue(), {
+				base: { image: 'node', stage: 'test' },
+				job: { image: 'node', stage: 'test', script: 'run' }
+			})
+
+			document.validate(schema)
+			assert.strictEqual(document.warnings.length, 0)
+		})
+
+		test('local keys and earlier mappings take precedence', function () {
+			const input = 'a: &a {x: 1, y: 1}\nb: &b {x: 2, y: 2, z: 2}\nc:\n  <<: [*a, *b]\n  y: 3\nd:\n  <<: [{x: 4}, *b]'
+			isValid(input)
+
+			const value = YamlParser.parse(input).documents[0].root.getValue()
+			assert.deepEqual(value.c, { x: 1, y: 3, z: 2 })
+			assert.deepEqual(value.d, { x: 4, y: 2, z: 2 })
+		})
+
+		test('quoted merge key is an ordinary key', function () {
+			const value = YamlParser.parse('a: &a {x: 1}\nb:\n  "<<": *a').documents[0].root.getValue()
+			assert.deepEqual(value.b, { '<<': { x: 1 } })
+		})
+
+		test('reports problems of merged properties on the merge key', function () {
+			const input = 'base: &base\n  image: 5\n  extra: true\njob:\n  <<: *base\n'
+			const document = YamlParser.parse(input)
+			document.validate(schema)
+
+			const mergeKey = input.indexOf('<<')
+			assert.deepStrictEqual(document.warnings.map(w => [w.location.start, w.location.end]), [
+				[input.indexOf('job'), input.indexOf('job') + 3],
+				[mergeKey, input.length - 1],
+				[mergeKey, input.length - 1]
+			])
+		})
+
+		test('errors on values that are not mappings', function () {
+			isInvalid('a: &a 1\nb:\n  <<: *a')
+			isInvalid('b:\n  <<: [1]')
+			isInvalid('b:\n  <<: *missing')
+		})
+
+		test('merge key is part of the AST', function () {
+			const input = 'base: &base\n  image: node\njob:\n  <<: *base\n  script: run'
+			const document = YamlParser.parse(input).documents[0]
+
+			const node = document.getNodeFromOffset(input.indexOf('<<'))
+			assert.strictEqual(node.type, 'string')
+			assert.deepStrictEqual(node.getPath(), ['job', '<<'])
+
+			const job = <Parser.ObjectASTNode>node.parent.parent
+			assert.deepStrictEqual(job.getKeyList(), ['script', 'image'])
+			assert.deepStrictEqual(job.getChildNodes().map(p => (<Parser.PropertyASTNode>p).key.value), ['<<', 'script'])
+		})
+	})
+
+	suite('custom tags', () => {
+		const customTags: YamlParser.CustomTag[] = [
+			{ tag: '!Ref', kind: 'scalar' },
+			{ tag: '!GetAZs', kind: 'scalar', schema: { type: 'array' } },
+			{ tag: '!Sub', kind: 'sequence' },
+			{ tag: '!reference', kind: 'sequence', schema: { type: 'array', items: { type: 'string' } } },
+			{ tag: '!If', kind: 'mapping' }
+		];
+
+		test('are accepted', function () {
+			const input = 'a: !Ref 5\nb: !Sub [x, y]\nc: !If\n  x: 1\nd: !reference [.setup, script]'
+			assert.ok(YamlParser.parse(input).errors.length > 0)
+
+			const result = YamlParser.parse(input, { customTags })
+			assert.strictEqual(result.errors.length + result.warnings.length, 0)
+			assert.deepEqual(result.documents[0].root.getValue(), { a: '5', b: ['x', 'y'], c: { x: 1 }, d: ['.setup', 'script'] })
+		})
+
+		test('must be applied to the declared kind', function () {
+			const result = YamlParser.parse('a: !Ref [1]', { customTags })
+			assert.ok(result.errors.length > 0)
+		})
+
+		test('are validated against their schema', function () {
+			const input = 'a: !GetAZs region\nb: !reference [.setup, 5]\nc: !Ref value'
+			const result = YamlParser.parse(input, { customTags })
+
+			result.validate({
+				type: 'object',
+				properties: {
+					a: { type: 'string' },
+					b: { type: 'string' },
+					c: { type: 'number' }
+				}
+			})
+
+			assert.deepStrictEqual(result.warnings.map(w => input.substring(w.location.start, w.location.end)), ['region', '5', 'value'])
+		})
+	})
+
+	suite('scalar resolution', () => {
+		const getValue = (content: string, options: YamlParser.ParserOptions = {}) => YamlParser.parse(content, options).documents[0].root.getValue()
+
+		test('uses the YAML 1.2 core schema by default', function () {
+			assert.deepEqual(getValue('a: yes\nb: on\nc: 0777\nd: 1_000\ne: 0o17\nf: 0x1F\ng: True\nh: ~'),
+				{ a: 'yes', b: 'on', c: 777, d: '1_000', e: 15, f: 31, g: true, h: null })
+		})
+
+		test('resolves the YAML 1.1 types', function () {
+			assert.deepEqual(getValue('a: yes\nb: off\nc: 0777\nd: 1_000\ne: 0b101\nf: 1:30\ng: 1_0.5\nh: -0x_1F', { yamlVersion: '1.1' }),
+				{ a: true, b: false, c: 511, d: 1000, e: 5, f: 90, g: 10.5, h: -31 })
+		})
+
+		test('resolves the JSON and failsafe schemas', function () {
+			assert.deepEqual(getValue('a: True\nb: -1.5e3\nc: null\nd: ~\ne: 0o17', { scalarSchema: 'json' }),
+				{ a: 'True', b: -1500, c: null, d: '~', e: '0o17' })
+			assert.deepEqual(getValue('a: true\nb: 1\nc: null', { scalarSchema: 'failsafe' }),
+				{ a: 'true', b: '1', c: 'null' })
+		})
+
+		test('follows the %YAML directive of each document', function () {
+			const result = YamlParser.parse('%YAML 1.1\n---\na: on\n...\n---\na: on\n...\n%YAML 1.2\n---\na: on', { yamlVersion: '1.1' })
+			assert.deepEqual(result.errors, [])
+			assert.deepEqual(result.documents.map(d => d.root.getValue()), [{ a: true }, { a: true }, { a: 'on' }])
+		})
+
+		test('keeps quoted scalars as strings', function () {
+			assert.deepEqual(getValue('a: "yes"\nb: \'0777\'', { yamlVersion: '1.1' }), { a: 'yes', b: '0777' })
+		})
+	})
+
+	suite('numbers', () => {
+		const getNumbers = (content: string, options: YamlParser.ParserOptions = {}) =>
+			(<Parser.ObjectASTNode>YamlParser.parse(content, options).documents[0].root).properties
+				.map(p => [(<Parser.NumberASTNode>p.value).value, (<Parser.NumberASTNode>p.value).isInteger])
+
+		test('have the value of every YAML 1.2 form', function () {
+			assert.deepEqual(getNumbers('a: 0x1F\nb: 0o17\nc: -12\nd: +12\ne: 1.5e3\nf: 1.0\ng: .inf\nh: -.Inf'),
+				[[31, true], [15, true], [-12, true], [12, true], [1500, false], [1, false], [Infinity, false], [-Infinity, false]])
+
+			const [[nan]] = getNumbers('a: .NaN')
+			assert.ok(isNaN(<number>nan))
+		})
+
+		test('have the value of every YAML 1.1 form', function () {
+			assert.deepEqual(getNumbers('a: 0b1010\nb: 0777\nc: 1_000\nd: -0x_1F\ne: 190:20:30\nf: 1_0.5\ng: 190:20:30.15\nh: 685.230_15e+03', { yamlVersion: '1.1' }),
+				[[10, true], [511, true], [1000, true], [-31, true], [685230, true], [10.5, false], [685230.15, false], [685230.15, false]])
+		})
+
+		test('warn when they cannot be represented', function () {
+			const content = 'a: 9007199254740991\nb: 12345678901234567890\nc: 0xFFFFFFFFFFFFFFFF\nd: 1e400\ne: .inf'
+			const warnings = YamlParser.parse(content).warnings
+			assert.deepEqual(warnings.map(w => [content.substring(w.location.start, w.location.end), w.code]), [
+				['12345678901234567890', YamlParser.YAMLErrorCode.NumberOutOfRange],
+				['0xFFFFFFFFFFFFFFFF', YamlParser.YAMLErrorCode.NumberOutOfRange],
+				['1e400', YamlParser.YAMLErrorCode.NumberOutOfRange]
+			])
+		})
+	})
+
+	suite('standard tags', () => {
+		const getValue = (content: string) => YamlParser.parse(content).documents[0].root.getValue()
+
+		test('decide the type of scalars', function () {
+			assert.deepEqual(getValue('a: !!str 123\nb: !!int "12"\nc: !!float 1\nd: !!bool true\ne: !!null ""\nf: !<tag:yaml.org,2002:str> true'),
+				{ a: '123', b: 12, c: 1, d: true, e: null, f: 'true' })
+
+			const node = <Parser.NumberASTNode>YamlParser.parse('a: !!float 1').getNodeFromOffset(11)
+			assert.strictEqual(node.isInteger, false)
+		})
+
+		test('apply to collections', function () {
+			assert.deepEqual(getValue('a: !!map {b: 1}\nc: !!seq [1]\nd: !!set {x}\ne: !!pairs [f: 1, f: 2]'),
+				{ a: { b: 1 }, c: [1], d: { x: null }, e: [{ f: 1 }, { f: 2 }] })
+		})
+
+		test('report content that is not of the tagged type', function () {
+			const content = 'a: !!int abc\nb: !!bool yes\nc: 1'
+			const result = YamlParser.parse(content)
+			assert.deepEqual(result.errors.map(e => [content.substring(e.location.start, e.location.end), e.code]),
+				[['abc', YamlParser.YAMLErrorCode.InvalidTag], ['yes', YamlParser.YAMLErrorCode.InvalidTag]])
+			assert.deepEqual(result.documents[0].root.getValue(), { a: 'abc', b: 'yes', c: 1 })
+		})
+
+		test('report collections', function () {
+			const error = YamlParser.parse('a: !!str [1]').errors[0]
+			assert.strictEqual(error.code, YamlParser.YAMLErrorCode.InvalidTag)
+		})
+	})
+
+	suite('timestamps and binary', () => {
+		const getNodes = (content: string, options: YamlParser.ParserOptions = {}) =>
+			(<Parser.ObjectASTNode>YamlParser.parse(content, options).documents[0].root).properties.map(p => p.value)
+
+		test('are recognized when tagged', function () {
+			const [timestamp, date, binary] = getNodes('a: !!timestamp 2001-12-14 21:59:43.10 -5\nb: !!timestamp 2002-12-14\nc: !!binary aGVsbG8=')
+
+			assert.ok(timestamp instanceof YamlParser.TimestampASTNode)
+			assert.strictEqual((<YamlParser.TimestampASTNode>timestamp).date.toISOString(), '2001-12-15T02:59:43.100Z')
+			assert.strictEqual(timestamp.getValue(), '2001-12-14 21:59:43.10 -5')
+			assert.strictEqual((<YamlParser.TimestampASTNode>date).date.toISOString(), '2002-12-14T00:00:00.000Z')
+			assert.ok(binary instanceof YamlParser.BinaryASTNode)
+		})
+
+		test('are only plain timestamps in YAML 1.1', function () {
+			const content = 'a: 2001-12-14t21:59:43.10-05:00\nb: "2001-12-14"'
+			assert.ok(getNodes(content, { yamlVersion: '1.1' })[0] instanceof YamlParser.TimestampASTNode)
+			assert.ok(!(getNodes(content, { yamlVersion: '1.1' })[1] instanceof YamlParser.TimestampASTNode))
+			assert.ok(!(getNodes(content)[0] instanceof YamlParser.TimestampASTNode))
+		})
+
+		test('report invalid dates and data', function () {
+			const content = 'a: !!timestamp 2024-13-01\nb: !!binary "not base64!"\nc: !!timestamp 2001-12-14'
+			const result = YamlParser.parse(content)
+			assert.deepEqual(result.errors.map(e => [content.substring(e.location.start, e.location.end), e.code]), [
+				['2024-13-01', YamlParser.YAMLErrorCode.InvalidTag],
+				['"not base64!"', YamlParser.YAMLErrorCode.InvalidTag]
+			])
+			assert.strictEqual(YamlParser.parse('a: 2024-02-30', { yamlVersion: '1.1' }).errors.length, 1)
+		})
+	})
+
+	suite('keys', () => {
+		const getKeys = (content: string) =>
+			(<Parser.ObjectASTNode>YamlParser.parse(content).documents[0].root).properties.map(p => <YamlParser.KeyASTNode>p.key)
+
+		test('keep the node as written', function () {
+			const keys = getKeys('1: a\ntrue: b\n~: c\n"2": d')
+			assert.deepEqual(keys.map(k => [k.value, k.getKeyType()]), [['1', 'number'], ['true', 'boolean'], ['~', 'null'], ['2', 'string']])
+			assert.strictEqual(keys[0].node.getValue(), 1)
+			assert.ok(keys.every(k => k.isKey))
+		})
+
+		test('name complex keys as written', function () {
+			const content = '? [a, b]\n: 1\n{x: 1}: 2'
+			const keys = getKeys(content)
+			assert.deepEqual(keys.map(k => [k.value, k.getKeyType()]), [['[a, b]', 'array'], ['{x: 1}', 'object']])
+			assert.deepEqual(YamlParser.parse(content).documents[0].root.getValue(), { '[a, b]': 1, '{x: 1}': 2 })
+			assert.deepEqual((<Parser.ArrayASTNode>keys[0].node).items.map(i => i.getValue()), ['a', 'b'])
+		})
+
+		test('resolve aliases', function () {
+			const keys = getKeys('a: &k 1\n*k : b')
+			assert.deepEqual(keys.map(k => [k.value, k.getKeyType()]), [['a', 'string'], ['1', 'number']])
+		})
+
+		test('that are not strings are warned about once for combined schemas', function () {
+			const getWarnings = (schema: JsonSchema.JSONSchema) => {
+				const doc = YamlParser.parse('1: a\n')
+				doc.validate(schema)
+				return doc.warnings.filter(w => w.message.indexOf('Key of type') === 0).map(w => [w.message, w.location.start, w.location.end])
+			}
+			const warning = ['Key of type number is used as the property name "1"', 0, 1]
+
+			assert.deepEqual(getWarnings({ allOf: [{ type: 'object' }, { type: 'object', properties: {} }] }), [warning])
+			assert.deepEqual(getWarnings({ anyOf: [{ type: 'object' }, { type: 'object', properties: {} }] }), [warning])
+			assert.deepEqual(getWarnings({ type: 'object' }), [warning])
+			assert.deepEqual(getWarnings({ type: 'array' }), [])
+		})
+	})
+
+	suite('comments', () => {
+		const getComments = (doc: YamlParser.SingleYAMLDocument, node: Parser.ASTNode) => {
+			const comments = doc.getComments(node)
+			return { leading: comments.leading.map(c => c.value), inline: comments.inline && comments.inline.value, trailing: comments.trailing.map(c => c.value) }
+		}
+		const getProperty = (node: Parser.ASTNode, key: string) => (<Parser.ObjectASTNode>node).properties.find(p => p.key.value === key)
+
+		test('are read outside of quoted and block scalars', function () {
+			const content = '# head\na: "b # c" # d\ne: |  # f\n  g # h\ni: j#k\n'
+			const doc = YamlParser.parse(content).documents[0]
+			assert.deepEqual(doc.comments.map(c => c.value), [' head', ' d', ' f'])
+			assert.deepEqual(doc.comments.map(c => content.substring(c.start, c.end)), ['# head', '# d', '# f'])
+		})
+
+		test('are read on the lines the parser cannot read', function () {
+			const content = 'a: 1\n b: 2 # note\nc: 3\n'
+			const doc = YamlParser.parse(content).documents[0]
+			assert.deepEqual(doc.comments.map(c => content.substring(c.start, c.end)), ['# note'])
+			assert.ok(doc.hasSyntaxErrors())
+		})
+
+		test('attach to the entries they lead and follow on the same line', function () {
+			const doc = YamlParser.parse('# head\n\na: 1 # one\nb:\n  # lead c\n  c: 2\n  d: [3, 4] # four\nl:\n  - 5 # five\n  # lead six\n  - 6\n').documents[0]
+			const b = getProperty(doc.root, 'b').value
+			const l = <Parser.ArrayASTNode>getProperty(doc.root, 'l').value
+
+			assert.deepEqual(getComments(doc, getProperty(doc.root, 'a')), { leading: [' head'], inline: ' one', trailing: [] })
+			assert.deepEqual(getComments(doc, getProperty(b, 'c')), { leading: [' lead c'], inline: null, trailing: [] })
+			assert.deepEqual(getComments(doc, getProperty(b, 'd')), { leading: [], inline: ' four', trailing: [] })
+			assert.deepEqual(getComments(doc, l.items[0]), { leading: [], inline: ' five', trailing: [] })
+			assert.deepEqual(getComments(doc, l.items[1]), { leading: [' lead six'], inline: null, trailing: [] })
+		})
+
+		test('trail the collection they are indented as', function () {
+			const doc = YamlParser.parse('a:\n  b:\n    c: 1\n    # end of b\n  # end of a\n# end\n').documents[0]
+			const a = getProperty(doc.root, 'a').value
+
+			assert.deepEqual(getComments(doc, getProperty(a, 'b').value).trailing, [' end of b'])
+			assert.deepEqual(getComments(doc, a).trailing, [' end of a'])
+			assert.deepEqual(getComments(doc, doc.root).trailing, [' end'])
+		})
+
+		test('belong to the document following them', function () {
+			const documents = YamlParser.parse('a: 1\n# end of first\n--- # second\n# lead b\nb: 2\n').documents
+
+			assert.deepEqual(documents.map(d => d.comments.map(c => c.value)), [[' end of first'], [' second', ' lead b']])
+			assert.deepEqual(getComments(documents[1], documents[1].root).inline, ' second')
+			assert.deepEqual(getComments(documents[1], getProperty(documents[1].root, 'b')).leading, [' lead b'])
+		})
+
+		test('move with their document when reparsing', function () {
+			const content = 'a: 1\n---\nb: 2\n---\nc: 3 # three\n'
+			const start = content.indexOf('1')
+			const previous = YamlParser.parse(content)
+			const document = TextDocument.create('test://test.yaml', 'yaml', 0, content)
+			const result = YamlParser.reparse(previous, [{ range: Range.create(document.positionAt(start), document.positionAt(start + 1)), rangeLength: 1, text: '10' }])
+
+			assert.strictEqual(getComments(result.documents[2], getProperty(result.documents[2].root, 'c')).inline, ' three')
+			assert.strictEqual(result.documents[2].comments[0].start, content.indexOf('#') + 1)
+			assert.strictEqual(previous.documents[2].comments[0].start, content.indexOf('#'))
+		})
+	})
+
+	suite('scalar styles', () => {
+		const getStrings = (content: string) =>
+			(<Parser.ObjectASTNode>YamlParser.parse(content).documents[0].root).properties.map(p => <YamlParser.YAMLStringASTNode>p.value)
+		const getStyle = (node: YamlParser.YAMLStringASTNode) => [node.style, node.chomping, node.indentationIndicator]
+
+		test('record the style as written', function () {
+			const strings = getStrings('a: b c\nd: \'e\'\nf: !!str "g"\nh: |\n  i\nj: >\n  k\n')
+			assert.deepEqual(strings.map(getStyle), [
+				['plain', null, 0], ['single-quoted', null, 0], ['double-quoted', null, 0], ['literal', 'clip', 0], ['folded', 'clip', 0]
+			])
+		})
+
+		test('record the indicators of block scalars', function () {
+			const strings = getStrings('a: |-\n  b\nc: >+2\n   d\ne: |4- # f\n     g\n')
+			assert.deepEqual(strings.map(getStyle), [['literal', 'strip', 0], ['folded', 'keep', 2], ['literal', 'strip', 4]])
+		})
+
+		test('record the range of the content', function () {
+			const content = 'a: plain\nb: "it\'s"\nc: \'it\'\'s\'\nd: |\n  line\n'
+			const strings = getStrings(content)
+			assert.deepEqual(strings.map(s => content.substring(s.contentRange.start, s.contentRange.end)), ['plain', 'it\'s', 'it\'\'s', '  line'])
+		})
+
+		test('are recorded for keys', function () {
+			const key = (<Parser.ObjectASTNode>YamlParser.parse('"a b": 1').documents[0].root).properties[0].key
+			assert.strictEqual((<YamlParser.KeyASTNode>key).style, 'double-quoted')
+		})
+	})
+
+	suite('directives', () => {
+		const getProblems = (doc: YamlParser.SingleYAMLDocument) =>
+			doc.errors.map(e => ['error', e.message]).concat(doc.warnings.map(w => ['warning', w.message]))
+
+		test('are read for each document', function () {
+			const documents = YamlParser.parse('%YAML 1.2\n%TAG !e! tag:example.com,2000: # vendor\n---\na: 1\n...\n---\nb: 2\n').documents
+
+			assert.deepEqual(documents[0].directives.map(d => [d.name, d.parameters, d.start, d.end]), [
+				['YAML', ['1.2'], 0, 9], ['TAG', ['!e!', 'tag:example.com,2000:'], 10, 40]
+			])
+			assert.deepEqual(documents[1].directives, [])
+			assert.deepEqual(documents.map(getProblems), [[], []])
+		})
+
+		test('expand tag handles', function () {
+			const customTags: YamlParser.CustomTag[] = [{ tag: 'tag:example.com,2000:app', kind: 'scalar' }]
+			const doc = YamlParser.parse('%TAG !e! tag:example.com,2000:\n---\na: !e!app b\n', { customTags }).documents[0]
+
+			assert.deepEqual(doc.errors, [])
+			assert.deepEqual(doc.root.getValue(), { a: 'b' })
+			assert.strictEqual(doc.expandTag('!e!app'), 'tag:example.com,2000:app')
+			assert.strictEqual(doc.expandTag('!!str'), 'tag:yaml.org,2002:str')
+			assert.strictEqual(doc.expandTag('!local'), '!local')
+			assert.strictEqual(doc.expandTag('!<tag:example.com,2000:x>'), 'tag:example.com,2000:x')
+			assert.strictEqual(doc.expandTag('!f!app'), null)
+		})
+
+		test('report unsupported versions and unknown directives', function () {
+			assert.deepEqual(getProblems(YamlParser.parse('%YAML 2.0\n---\na: 1').documents[0]), [['error', 'YAML version 2.0 is not supported']])
+			assert.deepEqual(getProblems(YamlParser.parse('%YAML 1.3\n---\na: 1').documents[0]), [['warning', 'YAML version 1.3 is not supported, the document is read as YAML 1.2']])
+			assert.deepEqual(getProblems(YamlParser.parse('%YAML 1.2\n%YAML 1.2\n---\na: 1').documents[0]), [['error', 'The YAML version of the document is already declared']])
+			assert.deepEqual(getProblems(YamlParser.parse('%FOO bar\n---\na: 1').documents[0]), [['warning', 'Unknown directive %FOO is ignored']])
+		})
+
+		test('are only read outside of documents', function () {
+			const quoted = YamlParser.parse('a: "x\n%y"\n').documents[0]
+			assert.deepEqual(quoted.directives, [])
+			assert.deepEqual(getProblems(quoted), [])
+			assert.deepEqual(quoted.root.getValue(), { a: 'x %y' })
+
+			const flow = YamlParser.parse('a: [1,\n%x]\n').documents[0]
+			assert.deepEqual(flow.directives, [])
+			assert.ok(flow.errors.every(e => e.message.indexOf('end of the stream') === -1))
+			assert.strictEqual(flow.root.getValue().a[0], 1)
+
+			const ended = YamlParser.parse('a: 1\n...\n%YAML 1.2\n---\nb: 2').documents
+			assert.deepEqual(ended.map(d => d.directives.map(d => d.name)), [[], ['YAML']])
+			assert.deepEqual(ended.map(getProblems), [[], []])
+		})
+
+		test('report directives within a document', function () {
+			const documents = YamlParser.parse('a: 1\n%YAML 1.2\n---\nb: 2').documents
+			assert.deepEqual(documents.map(d => d.root.getValue()), [{ a: 1 }, { b: 2 }])
+			assert.deepEqual(documents.map(getProblems), [[], [['error', 'A directive must be at the start of the stream or follow a ... document end marker']]])
+			assert.deepEqual(documents[1].errors[0].location, { start: 5, end: 14 })
+		})
+
+		test('report redefined and undefined tag handles', function () {
+			const redefined = YamlParser.parse('%TAG !e! tag:a:\n%TAG !e! tag:b:\n---\na: 1').documents[0]
+			assert.deepEqual(getProblems(redefined), [['error', 'Tag handle !e! is already defined']])
+			assert.deepEqual(redefined.errors[0].location, { start: 16, end: 31 })
+			assert.strictEqual(redefined.expandTag('!e!x'), 'tag:a:x')
+
+			const undefinedHandle = YamlParser.parse('a: !e!app b').documents[0]
+			assert.strictEqual(undefinedHandle.errors.length, 1)
+			assert.strictEqual(undefinedHandle.errors[0].code, YamlParser.YAMLErrorCode.InvalidTag)
+			assert.deepEqual(undefinedHandle.errors[0].location, { start: 3, end: 9 })
+		})
+	})
+
+	suite('error recovery', () => {
+		const assertRecovered = (content: string, expected: any) => {
+			const result = YamlParser.parse(content)
+			assert.ok(result.errors.length > 0, content)
+			assert.deepEqual(result.documents.map(d => d.root.getValue()), [expected], content)
+		}
+
+		test('keeps the mappings around a broken line', function () {
+			assertRecovered('a: 1\n b: 2\nc: 3\nd: 4', { a: 1, c: 3, d: 4 })
+			assertRecovered('a:\n  b: 1\n  c d\n  e: 2', { a: { b: 1, e: 2 } })
+			assertRecovered('a: &x 1\nb: *missing\nc: 3', { a: 1, b: null, c: 3 })
+		})
+
+		test('keeps the sequence around a broken item', function () {
+			assertRecovered('- 1\n-2\n- 3', [1, 3])
+		})
+
+		test('drops unterminated flow collections and quoted scalars', function () {
+			assertRecovered('a: [1, 2\nb: 3\nc: 4', { b: 3, c: 4 })
+			assertRecovered('a: "unterminated\nb: 3', { b: 3 })
+			assertRecovered('x:\n  y: {a: 1\n  z: 3\nw: 4', { x: { z: 3 }, w: 4 })
+		})
+
+		test('reports the errors of the original text', function () {
+			const content = 'a: 1\n b: 2\nc: 3'
+			const error = YamlParser.parse(content).errors[0]
+			assert.strictEqual(content.substring(error.location.start, error.location.end), 'b: 2')
+		})
+
+		test('recovers from anchors and tags without a node', function () {
+			assertRecovered('d: [3, &y \ne: 1', { e: 1 })
+			assertRecovered('- 1\n- !!str\n- 2', [1, null, 2])
+
+			const content = 'a:\n  - &y\n'
+			const error = YamlParser.parse(content).errors[0]
+			assert.strictEqual(error.code, YamlParser.YAMLErrorCode.InvalidAnchor)
+			assert.strictEqual(content.substring(error.location.start, error.location.end), '&y')
+			assert.doesNotThrow(() => YamlParser.parse('[1, &y \n'))
+		})
+
+		test('keeps offsets', function () {
+			const content = 'a: [1, 2\nb: 3'
+			const node = YamlParser.parse(content).getNodeFromOffset(content.indexOf('3'))
+			assert.strictEqual(node.getValue(), 3)
+			assert.strictEqual(node.start, content.indexOf('3'))
+		})
+	})
+
+	suite('incremental parsing', () => {
+		const stream = 'a: 1\n---\nb: &x 2\nc: *x\n---\nd: [3, 4]\n---\n- g\n'
+
+		const edit = (content: string, search: string, text: string) => {
+			const start = content.indexOf(search)
+			const document = TextDocument.create('test://test.yaml', 'yaml', 0, content)
+			const range = Range.create(document.positionAt(start), document.positionAt(start + search.length))
+			return { content: content.substring(0, start) + text + content.substring(start + search.length), change: { range, rangeLength: search.length, text } }
+		}
+
+		const assertSameAsParse = (result: YamlParser.YAMLDocument, content: string) => {
+			const expected = YamlParser.parse(content)
+			const problems = (problems: Parser.IError[]) => problems.map(e => [e.message, e.location.start, e.location.end])
+			assert.deepEqual(result.documents.map(d => d.root && d.root.getValue()), expected.documents.map(d => d.root && d.root.getValue()))
+			assert.deepEqual(result.documents.map(d => [d.start, d.end]), expected.documents.map(d => [d.start, d.end]))
+			assert.deepEqual(result.documents.map(d => d.root && [d.root.start, d.root.end]), expected.documents.map(d => d.root && [d.root.start, d.root.end]))
+			assert.deepEqual(problems(result.errors), problems(expected.errors))
+			assert.deepEqual(problems(result.warnings), problems(expected.warnings))
+			assert.deepEqual(result.lines, getLineStartPositions(content))
+		}
+
+		test('matches a full parse', function () {
+			const broken = 'a: 1\n---\nb: &x 2\nc: *x  ]\n---\nd: [3, 4]\n---\n- g\n'
+			const duplicated = 'a: 1\na: 2\n---\nb: {x: 1, x: 2}\n---\nc: 3\n'
+			for (const [content, search, text] of [[stream, '2', '22'], [stream, 'a: 1', 'a: 1\ne: 5'], [stream, '[3, 4]', '[3'], [stream, '---\nd', '---\n---\nd'],
+				[stream, 'c: *x\n', ''], [broken, '---\n- g', '}  - g'], [broken, '- g', ']'], [broken, 'd:', 'e:'], [broken, '3, 4', ', '],
+				[duplicated, 'c: 3', 'c: 3\nc: 4'], [duplicated, 'x: 1', 'x: 1, y'], [duplicated, 'x: 1', ', ']]) {
+				const edited = edit(content, search, text)
+				assertSameAsParse(YamlParser.reparse(YamlParser.parse(content), [edited.change]), edited.content)
+			}
+		})
+
+		test('parses again the documents after the change that it breaks', function () {
+			const ended = 'a: 1\n---\nb: &x 2\nc: *x\n---\nd: [3, 4]\n...'
+			for (const [content, search, text] of [[ended, '&x 2', '"'], [stream, '&x 2', '"'], [stream, '4]', 'x: 1\n']]) {
+				const edited = edit(content, search, text)
+				assertSameAsParse(YamlParser.reparse(YamlParser.parse(content), [edited.change]), edited.content)
+			}
+		})
+
+		test('shares the documents the change does not move', function () {
+			const previous = YamlParser.parse(stream)
+			const [first, second, , last] = previous.documents
+			const replaced = edit(stream, 'b: &x 2', 'b: &x 3')
+			const result = YamlParser.reparse(previous, [replaced.change])
+
+			// The document following the change is parsed again to find where the change ends
+			assert.strictEqual(result.documents[0], first)
+			assert.notStrictEqual(result.documents[1], second)
+			assert.strictEqual(result.documents[3], last)
+			assertSameAsParse(result, replaced.content)
+
+			// The documents after a change that moves them are copied
+			const { content, change } = edit(stream, 'b: &x 2', 'b: &x 2\ne: 5')
+			const moved = YamlParser.reparse(previous, [change])
+			assert.strictEqual(moved.documents[0], first)
+			assert.notStrictEqual(moved.documents[3], last)
+			assert.strictEqual(moved.documents[3].getNodeFromOffset(content.indexOf('g')).getValue(), 'g')
+			assert.strictEqual(last.getNodeFromOffset(stream.indexOf('g')).getValue(), 'g')
+			assertSameAsParse(moved, content)
+		})
+
+		test('validates the shared documents again', function () {
+			const previous = YamlParser.parse(stream)
+			previous.validate({ type: 'object', additionalProperties: { type: 'number' } })
+			const { content, change } = edit(stream, 'b: &x 2', 'b: &x 3')
+			const result = YamlParser.reparse(previous, [change])
+			result.validate({ type: 'object', additionalProperties: { type: 'string' } })
+
+			const expected = YamlParser.parse(content)
+			expected.validate({ type: 'object', additionalProperties: { type: 'string' } })
+			assert.deepEqual(result.warnings.map(w => [w.message, w.location.start]), expected.warnings.map(w => [w.message, w.location.start]))
+		})
+
+		test('leaves the previous result and its validation as they were', function () {
+			const previous = YamlParser.parse(stream)
+			previous.validate({ type: 'object', additionalProperties: { type: 'string' } })
+			const warnings = previous.warnings.map(w => [w.location.start, w.location.end])
+			YamlParser.reparse(previous, [edit(stream, 'a: 1', 'a: 10').change])
+
+			assert.ok(warnings.length > 0)
+			assert.deepEqual(previous.warnings.map(w => [w.location.start, w.location.end]), warnings)
+			assert.deepEqual(previous.lines, getLineStartPositions(stream))
+			assert.strictEqual(previous.documents[1].anchors[0].start, stream.indexOf('&x'))
+		})
+
+		test('applies consecutive and full text changes', function () {
+			const first = edit(stream, 'a: 1', 'a: 10')
+			const second = edit(first.content, 'd:', 'f:')
+			assertSameAsParse(YamlParser.reparse(YamlParser.parse(stream), [first.change, second.change]), second.content)
+			assertSameAsParse(YamlParser.reparse(YamlParser.parse(stream), [{ text: 'x: 1\n---\ny: 2' }]), 'x: 1\n---\ny: 2')
+		})
 	})
 
 	suite('Multiple Documents', () => {
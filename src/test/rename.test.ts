@@ -0,0 +1,54 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { doRename, isValidAnchorName } from '../services/yamlRename';
+
+suite('Rename', () => {
+
+	function rename(text: string, offset: number, newName: string) {
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		const edit = doRename(document, document.positionAt(offset), newName, parse(text));
+		return edit && TextDocument.applyEdits(document, edit.changes[document.uri]);
+	}
+
+	test('renames anchor and aliases', () => {
+		const text = 'base: &base\n  a: 1\njob:\n  <<: *base\nlist: [*base, *base]';
+		const expected = 'base: &defaults\n  a: 1\njob:\n  <<: *defaults\nlist: [*defaults, *defaults]';
+
+		assert.strictEqual(rename(text, text.indexOf('&base'), 'defaults'), expected);
+		assert.strictEqual(rename(text, text.lastIndexOf('*base') + 2, 'defaults'), expected);
+	});
+
+	test('stays within the YAML document', () => {
+		const text = 'a: &value 1\nb: *value\n---\na: &value 1\nb: *value\n';
+		const expected = 'a: &renamed 1\nb: *renamed\n---\na: &value 1\nb: *value\n';
+
+		assert.strictEqual(rename(text, text.indexOf('*value'), 'renamed'), expected);
+	});
+
+	test('nothing to rename', () => {
+		assert.strictEqual(rename('a: &value 1', 0, 'renamed'), null);
+	});
+
+	test('rejects invalid names', () => {
+		assert.throws(() => rename('a: &value 1', 4, 'has space'));
+		assert.throws(() => rename('a: &value 1', 4, 'flow,'));
+		assert.throws(() => rename('a: &value 1', 4, ''));
+	});
+
+	test('rejects existing names', () => {
+		assert.throws(() => rename('a: &one 1\nb: &two 2', 4, 'two'));
+		assert.strictEqual(rename('a: &one 1\n---\nb: &two 2', 4, 'two'), 'a: &two 1\n---\nb: &two 2');
+	});
+
+	test('isValidAnchorName', () => {
+		assert.strictEqual(isValidAnchorName('build_template'), true);
+		assert.strictEqual(isValidAnchorName('a.b-c:d'), true);
+		assert.strictEqual(isValidAnchorName('a]'), false);
+		assert.strictEqual(isValidAnchorName('a\tb'), false);
+	});
+});
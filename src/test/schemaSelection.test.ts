@@ -0,0 +1,99 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { getLanguageService, LanguageServiceParams, SchemaConfiguration, TextDocument, MarkedString } from '../yamlLanguageService';
+
+suite('Schema Selection', () => {
+
+	const schemas: SchemaConfiguration[] = [
+		{ uri: 'test://deployment.json', fileMatch: ['*.yaml'], documentMatch: { kind: 'Deployment', apiVersion: 'apps/*' },
+			schema: { properties: { replicas: { type: 'integer', description: 'Number of pods' } } } },
+		{ uri: 'test://service.json', documentMatch: { kind: 'Service' },
+			schema: { properties: { port: { type: 'integer', description: 'Port of the service' } } } },
+		{ uri: 'test://file.json', fileMatch: ['*.yaml'],
+			schema: { properties: { replicas: { type: 'string' }, port: { type: 'string' } } } }
+	];
+
+	// Schemas are requested relative to test://schemas/
+	const params: LanguageServiceParams = {
+		workspaceContext: { resolveRelativePath: (path: string) => 'test://schemas/' + path.replace(/^\.\//, '') },
+		schemaRequestService: (uri: string) => uri === 'test://schemas/count.json'
+			? Promise.resolve(JSON.stringify({ properties: { port: { type: 'integer' }, replicas: { type: 'integer' } } }))
+			: Promise.reject('Not found')
+	};
+
+	function setup(text: string, uri: string = 'test://test.yaml') {
+		const languageService = getLanguageService(params);
+		languageService.configure({ validate: true, schemas });
+
+		const document = TextDocument.create(uri, 'yaml', 0, text);
+		return { languageService, document, yamlDocument: languageService.parseYAMLDocument(document) };
+	}
+
+	function doValidation(text: string, uri?: string) {
+		const { languageService, document, yamlDocument } = setup(text, uri);
+		return languageService.doValidation(document, yamlDocument)
+			.then(diagnostics => diagnostics.map(d => document.getText().substring(document.offsetAt(d.range.start), document.offsetAt(d.range.end))));
+	}
+
+	test('documents are validated against the schema they match', () => {
+		const text = 'kind: Deployment\napiVersion: apps/v1\nreplicas: two\n---\nkind: Service\nport: http\n---\nreplicas: 3\nport: 80\n';
+		return doValidation(text).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, ['two', 'http', '3', '80']);
+		});
+	});
+
+	test('other documents are validated against the schema of the file', () => {
+		const text = 'kind: Deployment\napiVersion: v1\nreplicas: 3\n---\nkind: Services\nport: 80\n';
+		return doValidation(text).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, ['3', '80']);
+		});
+	});
+
+	test('rules apply to the files given by fileMatch', () => {
+		const text = 'kind: Deployment\napiVersion: apps/v1\nreplicas: two\n---\nkind: Service\nport: http\n';
+		return doValidation(text, 'test://test.yml').then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, ['http']);
+		});
+	});
+
+	test('completion and hover use the schema of the document at the position', () => {
+		const text = 'kind: Service\nport: 80\n---\nkind: Deployment\napiVersion: apps/v1\nrep';
+		const { languageService, document, yamlDocument } = setup(text);
+
+		return languageService.doComplete(document, document.positionAt(text.length), yamlDocument).then(list => {
+			assert.deepStrictEqual(list.items.map(item => item.label), ['replicas']);
+			return languageService.doHover(document, document.positionAt(text.indexOf('port')), yamlDocument);
+		}).then(hover => {
+			assert.deepStrictEqual((<MarkedString[]>hover.contents).filter(content => content), ['Port of the service']);
+		});
+	});
+
+	test('documents pin their schema with a modeline or a $schema key', () => {
+		const text = '# yaml-language-server: $schema=./count.json\nport: http\n---\n$schema: ./count.json\nkind: Service\nreplicas: two\n---\nport: http\n';
+		return doValidation(text).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, ['http', 'two']);
+		});
+	});
+
+	test('schemas failing to load are reported on the modeline', () => {
+		const modeline = '# yaml-language-server: $schema=./missing.json';
+		return doValidation(`kind: Service\n${modeline}\nport: 80\n`).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, [modeline]);
+			return doValidation('$schema: ./missing.json\nport: 80\n');
+		}).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, ['./missing.json']);
+		});
+	});
+
+	test('completion uses the pinned schema', () => {
+		const text = 'kind: Service\n---\n# yaml-language-server: $schema=test://schemas/count.json\nport: 80\nrep';
+		const { languageService, document, yamlDocument } = setup(text);
+
+		return languageService.doComplete(document, document.positionAt(text.length), yamlDocument).then(list => {
+			assert.deepStrictEqual(list.items.map(item => item.label), ['replicas']);
+		});
+	});
+});
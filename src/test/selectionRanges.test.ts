@@ -0,0 +1,64 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { getSelectionRanges } from '../services/yamlSelectionRanges';
+
+suite('Selection Ranges', () => {
+
+	// The text of each range, from the innermost
+	function getSelections(text: string, offset: number): string[] {
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		const result: string[] = [];
+		for (let range = getSelectionRanges(document, [document.positionAt(offset)], parse(text))[0]; range; range = range.parent) {
+			result.push(text.substring(document.offsetAt(range.range.start), document.offsetAt(range.range.end)));
+		}
+		return result;
+	}
+
+	test('from a scalar up to the document', () => {
+		const text = 'a: 1\n---\njobs:\n  build:\n    - run: make\n      name: "check out"\n# end\n';
+		assert.deepEqual(getSelections(text, text.indexOf('out')), [
+			'check out',
+			'"check out"',
+			'name: "check out"',
+			'run: make\n      name: "check out"',
+			'- run: make\n      name: "check out"',
+			'build:\n    - run: make\n      name: "check out"',
+			'jobs:\n  build:\n    - run: make\n      name: "check out"',
+			'---\njobs:\n  build:\n    - run: make\n      name: "check out"\n# end'
+		]);
+		assert.deepEqual(getSelections(text, 1), ['a', 'a: 1']);
+	});
+
+	test('at the end of a scalar and within flow collections', () => {
+		const text = 'list: [one, {two: 2}]\n';
+		assert.deepEqual(getSelections(text, text.indexOf('one') + 3), ['one', '[one, {two: 2}]', 'list: [one, {two: 2}]']);
+		assert.deepEqual(getSelections(text, text.indexOf('2')), ['2', 'two: 2', '{two: 2}', '[one, {two: 2}]', 'list: [one, {two: 2}]']);
+	});
+
+	test('contain the position in trailing whitespace and at the end of the stream', () => {
+		assert.deepEqual(getSelections('a: 1\nb: 2\n', 10), ['a: 1\nb: 2\n']);
+		assert.deepEqual(getSelections('a: 1   \nb: 2', 6), ['a: 1   \nb: 2']);
+
+		// Each range contains the position and is contained by its parent
+		for (const [text, offset] of [['a: 1\nb: 2\n', 10], ['a: 1   \nb: 2', 6], ['\n\na: "x"\n', 0], ['a: "x"', 3]] as [string, number][]) {
+			const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+			for (let range = getSelectionRanges(document, [document.positionAt(offset)], parse(text))[0]; range; range = range.parent) {
+				const start = document.offsetAt(range.range.start);
+				const end = document.offsetAt(range.range.end);
+				assert.ok(start <= offset && offset <= end, `${JSON.stringify(text)} at ${offset}`);
+				assert.ok(!range.parent || document.offsetAt(range.parent.range.start) <= start && end <= document.offsetAt(range.parent.range.end));
+			}
+		}
+	});
+
+	test('in comments and empty streams', () => {
+		const text = '# about\na: 1\n';
+		assert.deepEqual(getSelections(text, 3), ['# about\na: 1']);
+		assert.deepEqual(getSelections('', 0), ['']);
+	});
+});
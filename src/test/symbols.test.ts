@@ -0,0 +1,62 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { TextDocument, DocumentSymbol, SymbolKind } from 'vscode-languageserver-types';
+import { parse } from '../parser/yamlParser';
+import { findDocumentSymbols } from '../services/yamlSymbols';
+
+suite('Document Symbols', () => {
+
+	function getSymbols(text: string) {
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		return findDocumentSymbols(document, parse(text));
+	}
+
+	// The symbols as [name, kind, children]
+	function describe(symbols: DocumentSymbol[]): any[] {
+		return symbols.map(symbol => [symbol.name, symbol.kind, describe(symbol.children || [])]);
+	}
+
+	test('one symbol for each document', () => {
+		const symbols = getSymbols('a: 1\n---\n---\n- b\n');
+		assert.deepEqual(describe(symbols), [
+			['Document 1', SymbolKind.File, [['a', SymbolKind.Number, []]]],
+			['Document 2', SymbolKind.File, []],
+			['Document 3', SymbolKind.File, []]
+		]);
+		assert.deepEqual(getSymbols(''), []);
+	});
+
+	test('nested entries', () => {
+		const symbols = getSymbols('a:\n  b: text\n  c: [1, {d: true}]\n');
+		assert.deepEqual(describe(symbols[0].children), [
+			['a', SymbolKind.Module, [
+				['b', SymbolKind.String, []],
+				['c', SymbolKind.Array, [['1', SymbolKind.Module, [['d', SymbolKind.Boolean, []]]]]]
+			]]
+		]);
+	});
+
+	test('named after their identity', () => {
+		const text = 'kind: Service\nmetadata:\n  name: web\n---\nname: build\nsteps:\n  - name: Checkout\n  - run: test\n';
+		const symbols = getSymbols(text);
+		assert.deepEqual(symbols.map(s => s.name), ['Service/web', 'build']);
+		assert.deepEqual(symbols[1].children[1].children.map(s => s.name), ['Checkout', '1']);
+
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		assert.deepEqual(symbols[0].selectionRange, { start: document.positionAt(text.indexOf('web')), end: document.positionAt(text.indexOf('web') + 3) });
+	});
+
+	test('ranges of the YAML nodes', () => {
+		const text = 'a:\n  - b: 1\n  - c\n\nd: 2\n';
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		const [a, d] = getSymbols(text)[0].children;
+
+		assert.deepEqual(a.range, { start: document.positionAt(0), end: document.positionAt(text.indexOf('c') + 1) });
+		assert.deepEqual(a.selectionRange, { start: document.positionAt(0), end: document.positionAt(1) });
+		assert.deepEqual(a.children[0].range, { start: document.positionAt(text.indexOf('b')), end: document.positionAt(text.indexOf('1') + 1) });
+		assert.deepEqual(d.range, { start: document.positionAt(text.indexOf('d')), end: document.positionAt(text.indexOf('2') + 1) });
+	});
+});
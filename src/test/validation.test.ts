@@ -0,0 +1,93 @@
+'use strict';
+
+import "mocha";
+import assert = require('assert');
+
+import { getLanguageService, LanguageSettings, TextDocument, YAMLErrorCode } from '../yamlLanguageService';
+
+suite('Validation', () => {
+
+	function doValidation(text: string, settings: LanguageSettings = {}) {
+		const languageService = getLanguageService({});
+		languageService.configure({ validate: true, ...settings });
+
+		const document = TextDocument.create('test://test.yaml', 'yaml', 0, text);
+		return languageService.doValidation(document, languageService.parseYAMLDocument(document))
+			.then(diagnostics => diagnostics.map(d => [document.offsetAt(d.range.start), document.offsetAt(d.range.end), d.code]));
+	}
+
+	test('syntax errors carry their code', () => {
+		return doValidation('a: 1\n b: 2').then(diagnostics => {
+			assert.deepStrictEqual(diagnostics[0], [6, 10, YAMLErrorCode.BadIndentation]);
+			return doValidation('a: 1\nc: *missing');
+		}).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics[0], [8, 16, YAMLErrorCode.UnresolvedAlias]);
+		});
+	});
+
+	test('duplicate keys are warnings with a code', () => {
+		return doValidation('a: 1\na: 2').then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, [[5, 6, YAMLErrorCode.DuplicateKey], [0, 1, YAMLErrorCode.DuplicateKey]]);
+		});
+	});
+
+	test('scalars are resolved according to the YAML version', () => {
+		const schemas = [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema: { properties: { enabled: { type: 'boolean' } } } }];
+
+		return doValidation('enabled: yes', { schemas }).then(diagnostics => {
+			assert.strictEqual(diagnostics.length, 1);
+			return doValidation('enabled: yes', { schemas, yamlVersion: '1.1' });
+		}).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, []);
+			return doValidation('%YAML 1.1\n---\nenabled: yes', { schemas });
+		}).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, []);
+		});
+	});
+
+	test('tagged scalars are validated with their tagged type', () => {
+		const schemas = [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema: { properties: { version: { type: 'string' } } } }];
+
+		return doValidation('version: !!str 123', { schemas }).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, []);
+			return doValidation('version: 123', { schemas });
+		}).then(diagnostics => {
+			assert.strictEqual(diagnostics.length, 1);
+		});
+	});
+
+	test('numbers are checked against ranges with their value', () => {
+		const schemas = [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema: { properties: { port: { type: 'integer', minimum: 1, maximum: 65535 } } } }];
+
+		return doValidation('port: 0x1F', { schemas }).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, []);
+			return doValidation('port: 0x1FFFF', { schemas });
+		}).then(diagnostics => {
+			assert.strictEqual(diagnostics.length, 1);
+		});
+	});
+
+	test('strings are checked against date and binary formats', () => {
+		const schema = { properties: { released: { type: 'string', format: 'date' }, built: { type: 'string', format: 'date-time' }, icon: { type: 'string', format: 'byte' } } };
+		const schemas = [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema }];
+
+		return doValidation('released: 2024-01-31\nbuilt: 2001-12-14 21:59:43.10 -5\nicon: aGVsbG8=', { schemas }).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics, []);
+			return doValidation('released: 2024-13-01\nbuilt: 2001-12-14\nicon: aGVsbG8', { schemas });
+		}).then(diagnostics => {
+			assert.strictEqual(diagnostics.length, 3);
+		});
+	});
+
+	test('keys are checked against property names and expected to be strings', () => {
+		const schema = { type: 'object', propertyNames: { pattern: '^[a-z]+$' } };
+		const schemas = [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema }];
+
+		return doValidation('name: 1\nName: 2', { schemas }).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics.map(d => d.slice(0, 2)), [[8, 12]]);
+			return doValidation('name: 1\n200: ok', { schemas: [{ uri: 'test://schema.json', fileMatch: ['*.yaml'], schema: { type: 'object' } }] });
+		}).then(diagnostics => {
+			assert.deepStrictEqual(diagnostics.map(d => d.slice(0, 2)), [[8, 11]]);
+		});
+	});
+});
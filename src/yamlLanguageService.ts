@@ -5,40 +5,85 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import {TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, Diagnostic,
-	TextEdit, FormattingOptions, MarkedString} from 'vscode-languageserver-types';
+import {TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, DocumentSymbol, Diagnostic,
+	TextEdit, FormattingOptions, MarkedString, Location, DocumentHighlight, WorkspaceEdit, DiagnosticSeverity,
+	TextDocumentContentChangeEvent, FoldingRange, FoldingRangeKind} from 'vscode-languageserver-types';
 
 import {JSONCompletion} from 'vscode-json-languageservice/lib/services/jsonCompletion';
 import {JSONHover} from 'vscode-json-languageservice/lib/services/jsonHover';
 import {JSONValidation} from 'vscode-json-languageservice/lib/services/jsonValidation';
 import {JSONSchema} from 'vscode-json-languageservice/lib/jsonSchema';
-import {JSONDocumentSymbols} from 'vscode-json-languageservice/lib/services/jsonDocumentSymbols';
-import {parse as JSONDocumentConfig} from 'vscode-json-languageservice/lib/parser/jsonParser';
+import {parse as JSONDocumentConfig, JSONDocument as ParsedJSONDocument} from 'vscode-json-languageservice/lib/parser/jsonParser';
 
-import {parse as parseYAML} from './parser/yamlParser';
+import {parse as parseYAML, reparse as reparseYAML, CustomTag, ParserOptions, ScalarSchema, YAMLVersion, YAMLDocument as YAMLDocumentImpl, SingleYAMLDocument, YAMLErrorCode} from './parser/yamlParser';
 import {isInComment} from './services/yamlCompletion'
 import {format as formatYAML} from './services/yamlFormatter';
+import {findDefinition, findReferences, findDocumentHighlights} from './services/yamlNavigation';
+import {findDocumentSymbols} from './services/yamlSymbols';
+import {getFoldingRanges} from './services/yamlFolding';
+import {getSelectionRanges} from './services/yamlSelectionRanges';
+import {doRename} from './services/yamlRename';
+import {YAMLIncludes} from './services/yamlIncludes';
+import {YAMLSchemaService} from './services/yamlSchemaService';
 
 import {schemaContributions} from 'vscode-json-languageservice/lib/services/configuration';
-import {JSONSchemaService} from 'vscode-json-languageservice/lib/services/jsonSchemaService';
 import {JSONWorkerContribution, JSONPath, Segment, CompletionsCollector} from 'vscode-json-languageservice/lib/jsonContributions';
 
 export type JSONDocument = {}
 export type YAMLDocument = { documents: JSONDocument[]}
-export {JSONSchema, JSONWorkerContribution, JSONPath, Segment, CompletionsCollector};
-export {TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, Diagnostic,
-	TextEdit, FormattingOptions, MarkedString};
+export {JSONSchema, JSONWorkerContribution, JSONPath, Segment, CompletionsCollector, CustomTag, ScalarSchema, YAMLVersion, YAMLErrorCode};
+export {TextDocument, Position, CompletionItem, CompletionList, Hover, Range, SymbolInformation, DocumentSymbol, Diagnostic,
+	TextEdit, FormattingOptions, MarkedString, Location, DocumentHighlight, WorkspaceEdit, TextDocumentContentChangeEvent, FoldingRange, FoldingRangeKind};
 
 export interface LanguageService {
 	configure(settings: LanguageSettings): void;
 	doValidation(document: TextDocument, yamlDocument: YAMLDocument): Thenable<Diagnostic[]>;
 	parseYAMLDocument(document: TextDocument): YAMLDocument;
+	/**
+	 * Returns a previously parsed document updated with the given content changes, re-parsing only the affected documents
+	 * of the stream. The previous document is left as it was, but shares the documents the changes do not affect.
+	 */
+	updateYAMLDocument(yamlDocument: YAMLDocument, changes: TextDocumentContentChangeEvent[]): YAMLDocument;
 	resetSchema(uri: string): boolean;
+	/**
+	 * Discards the cached content of an included file, to be called when the file changes. Returns whether it was cached.
+	 */
+	resetInclude(uri: string): boolean;
 	doResolve(item: CompletionItem): Thenable<CompletionItem>;
 	doComplete(document: TextDocument, position: Position, doc: YAMLDocument): Thenable<CompletionList>;
-	findDocumentSymbols(document: TextDocument, doc: YAMLDocument): SymbolInformation[];
+	/**
+	 * Returns the symbols of each document of the stream, with the symbols of their entries nested within them.
+	 */
+	findDocumentSymbols(document: TextDocument, doc: YAMLDocument): DocumentSymbol[];
 	doHover(document: TextDocument, position: Position, doc: YAMLDocument): Thenable<Hover>;
 	format(document: TextDocument, options: FormattingOptions): TextEdit[];
+	findDefinition(document: TextDocument, position: Position, yamlDocument: YAMLDocument): Location;
+	findReferences(document: TextDocument, position: Position, yamlDocument: YAMLDocument): Location[];
+	findDocumentHighlights(document: TextDocument, position: Position, yamlDocument: YAMLDocument): DocumentHighlight[];
+	doRename(document: TextDocument, position: Position, newName: string): WorkspaceEdit;
+	/**
+	 * Returns the folding ranges of the documents, collections, block scalars and comment blocks of the stream.
+	 */
+	getFoldingRanges(document: TextDocument, context?: FoldingRangesContext): FoldingRange[];
+	/**
+	 * Returns the selection ranges at the given positions, from the node there up to its document.
+	 */
+	getSelectionRanges(document: TextDocument, positions: Position[], yamlDocument: YAMLDocument): SelectionRange[];
+}
+
+/**
+ * A range to select, and the larger range to select next. The types of the language server protocol do not have it yet.
+ */
+export interface SelectionRange {
+	range: Range;
+	parent?: SelectionRange;
+}
+
+export interface FoldingRangesContext {
+	/**
+	 * The maximal number of ranges returned.
+	 */
+	rangeLimit?: number;
 }
 
 export interface LanguageSettings {
@@ -51,6 +96,21 @@ export interface LanguageSettings {
 	 * A list of known schemas and/or associations of schemas to file names.
 	 */
 	schemas?: SchemaConfiguration[];
+
+	/**
+	 * Application specific tags, such as `!Ref`, that are accepted by the parser.
+	 */
+	customTags?: CustomTag[];
+
+	/**
+	 * The YAML version of documents without a `%YAML` directive, which decides for example whether `yes` is a boolean. Defaults to 1.2.
+	 */
+	yamlVersion?: YAMLVersion;
+
+	/**
+	 * The schema resolving plain scalars of YAML 1.2 documents: `core` (the default), `json` or `failsafe`.
+	 */
+	scalarSchema?: ScalarSchema;
 }
 
 export interface SchemaConfiguration {
@@ -67,6 +127,12 @@ export interface SchemaConfiguration {
 	 * If no schema is provided, the schema will be fetched with the schema request service (if available).
 	 */
 	schema?: JSONSchema;
+	/**
+	 * Field values selecting the documents of a stream that the schema applies to, by their path, such as
+	 * `{ "kind": "Deployment", "apiVersion": "apps/*" }`. The '*' wildcard can be used. The schema then applies to
+	 * the matching documents of the files given by `fileMatch`, or of any file without it, rather than to whole files.
+	 */
+	documentMatch?: { [path: string]: string };
 }
 
 export interface WorkspaceContextService {
@@ -80,6 +146,14 @@ export interface SchemaRequestService {
 	(uri: string): Thenable<string>;
 }
 
+/**
+ * The include request service is used to fetch files referenced with `!include`. The result should be the file content.
+ * If the file cannot be loaded, the promise should be rejected, and the reason is shown in the problem reported on the include.
+ */
+export interface IncludeRequestService {
+	(uri: string): Thenable<string>;
+}
+
 export interface PromiseConstructor {
     /**
      * Creates a new Promise.
@@ -130,7 +204,12 @@ export interface LanguageServiceParams {
 	 */
 	schemaRequestService?: SchemaRequestService;
 	/**
-	 * The workspace context is used to resolve relative paths for relative schema references.
+	 * The include request service is used to fetch files referenced with `!include`.
+	 * If not set, included files are not loaded.
+	 */
+	includeRequestService?: IncludeRequestService;
+	/**
+	 * The workspace context is used to resolve relative paths for relative schema references and includes.
 	 */
 	workspaceContext?: WorkspaceContextService;
 	/**
@@ -146,23 +225,78 @@ export interface LanguageServiceParams {
 export function getLanguageService(params: LanguageServiceParams): LanguageService {
 	let promise = params.promiseConstructor || Promise;
 
-	let jsonSchemaService = new JSONSchemaService(params.schemaRequestService, params.workspaceContext, promise);
+	let jsonSchemaService = new YAMLSchemaService(params.schemaRequestService, params.workspaceContext, promise);
 	jsonSchemaService.setSchemaContributions(schemaContributions);
 
 	let jsonCompletion = new JSONCompletion(jsonSchemaService, params.contributions, promise);
 	jsonCompletion['isInComment'] = isInComment.bind(jsonCompletion);
 
 	let jsonHover = new JSONHover(jsonSchemaService, params.contributions, promise);
-	let jsonDocumentSymbols = new JSONDocumentSymbols(jsonSchemaService);
 	let jsonValidation = new JSONValidation(jsonSchemaService, promise);
 
+	// Each document of a stream may have its own schema, pinned by the document or selected by the values of its fields
+	let schemaSelection = jsonSchemaService.selection;
+
+	let yamlIncludes = new YAMLIncludes(params.includeRequestService, params.workspaceContext, promise);
+
+	let parserOptions: ParserOptions = {};
+	let validationEnabled = true;
+
+	function parseYAMLDocument(document: TextDocument) {
+		return parseYAML(document.getText(), parserOptions);
+	}
+
+	function updateYAMLDocument(yamlDocument: YAMLDocument, changes: TextDocumentContentChangeEvent[]) {
+		return reparseYAML(<YAMLDocumentImpl>yamlDocument, changes, parserOptions);
+	}
+
+	// The JSON validation does not carry the error codes over to the diagnostics
+	function setDiagnosticCodes(textDocument: TextDocument, document: SingleYAMLDocument, diagnostics: Diagnostic[]) {
+		const problems = document.errors.concat(document.warnings).filter(problem => problem.code);
+
+		diagnostics.forEach(diagnostic => {
+			const start = textDocument.offsetAt(diagnostic.range.start);
+			const end = textDocument.offsetAt(diagnostic.range.end);
+			const problem = problems.find(p => p.location.start === start && p.location.end === end && p.message === diagnostic.message);
+			if (problem) {
+				diagnostic.code = problem.code;
+			}
+		});
+
+		return diagnostics;
+	}
+
+	// Completion and hover only consider the document at the position, so that its schema is used
+	function getDocumentAt(textDocument: TextDocument, position: Position, yamlDocument: YAMLDocument): ParsedJSONDocument {
+		const stream = <YAMLDocumentImpl>yamlDocument;
+		return stream.getOffsetLocation(textDocument.offsetAt(position)).document || new SingleYAMLDocument(stream.lines, stream.text);
+	}
+
+	function addModelineDiagnostic(textDocument: TextDocument, document: SingleYAMLDocument, diagnostics: Diagnostic[]) {
+		if (!validationEnabled) {
+			return promise.resolve(diagnostics);
+		}
+
+		return schemaSelection.getModelineProblem(textDocument.uri, document).then(problem => problem ? diagnostics.concat(Diagnostic.create(
+			Range.create(textDocument.positionAt(problem.location.start), textDocument.positionAt(problem.location.end)),
+			problem.message, DiagnosticSeverity.Warning)) : diagnostics);
+	}
 
 	function doValidation(textDocument: TextDocument, yamlDocument: YAMLDocument) {
 		var validate: (JSONDocument) => Thenable<Diagnostic[]> =
 			jsonValidation.doValidation.bind(jsonValidation, textDocument)
-		const validationResults = yamlDocument.documents.map(d => validate(d))
-		const resultsPromise = promise.all(validationResults);
-		return resultsPromise.then(res => (<Diagnostic[]>[]).concat(...res))
+		const parse = (text: string) => parseYAML(text, parserOptions);
+
+		return yamlIncludes.resolveIncludes(textDocument.uri, <YAMLDocumentImpl>yamlDocument, parse).then(includeProblems => {
+			const validationResults = (<YAMLDocumentImpl>yamlDocument).documents.map(d =>
+				validate(d).then(diagnostics => addModelineDiagnostic(textDocument, d, setDiagnosticCodes(textDocument, d, diagnostics))))
+			const resultsPromise = promise.all(validationResults);
+			const includeDiagnostics = validationEnabled ? includeProblems.map(problem => Diagnostic.create(
+				Range.create(textDocument.positionAt(problem.location.start), textDocument.positionAt(problem.location.end)),
+				problem.message, DiagnosticSeverity.Error)) : [];
+
+			return resultsPromise.then(res => (<Diagnostic[]>[]).concat(...res, includeDiagnostics))
+		});
 	}
 
 	return {
@@ -170,18 +304,39 @@ export function getLanguageService(params: LanguageServiceParams): LanguageServi
 			jsonSchemaService.clearExternalSchemas();
 			if (settings.schemas) {
 				settings.schemas.forEach(settings => {
-					jsonSchemaService.registerExternalSchema(settings.uri, settings.fileMatch, settings.schema);
+					jsonSchemaService.registerExternalSchema(settings.uri, settings.documentMatch ? null : settings.fileMatch, settings.schema);
 				});
 			};
+			schemaSelection.configure(settings.schemas || []);
 			jsonValidation.configure(settings);
+			validationEnabled = settings.validate;
+			parserOptions = {
+				customTags: settings.customTags || [],
+				yamlVersion: settings.yamlVersion,
+				scalarSchema: settings.scalarSchema
+			};
 		},
 		resetSchema: (uri: string) => jsonSchemaService.onResourceChange(uri),
+		resetInclude: (uri: string) => yamlIncludes.onResourceChange(uri),
 		doValidation: doValidation,
-		parseYAMLDocument : (document: TextDocument) => parseYAML(document.getText()),
+		parseYAMLDocument: parseYAMLDocument,
+		updateYAMLDocument: updateYAMLDocument,
 		doResolve: jsonCompletion.doResolve.bind(jsonCompletion),
-		doComplete: jsonCompletion.doComplete.bind(jsonCompletion),
-		findDocumentSymbols: jsonDocumentSymbols.findDocumentSymbols.bind(jsonDocumentSymbols),
-		doHover: jsonHover.doHover.bind(jsonHover),
-		format: formatYAML
+		doComplete: (document: TextDocument, position: Position, doc: YAMLDocument) =>
+			jsonCompletion.doComplete(document, position, getDocumentAt(document, position, doc)),
+		findDocumentSymbols: findDocumentSymbols,
+		doHover: (document: TextDocument, position: Position, doc: YAMLDocument) =>
+			jsonHover.doHover(document, position, getDocumentAt(document, position, doc)),
+		format: formatYAML,
+		findDefinition: (document: TextDocument, position: Position, yamlDocument: YAMLDocument) =>
+			yamlIncludes.findDefinition(document, position, <YAMLDocumentImpl>yamlDocument) || findDefinition(document, position, <YAMLDocumentImpl>yamlDocument),
+		findReferences: findReferences,
+		findDocumentHighlights: findDocumentHighlights,
+		doRename: (document: TextDocument, position: Position, newName: string) =>
+			doRename(document, position, newName, parseYAMLDocument(document)),
+		getFoldingRanges: (document: TextDocument, context?: FoldingRangesContext) =>
+			getFoldingRanges(document, parseYAMLDocument(document), context),
+		getSelectionRanges: (document: TextDocument, positions: Position[], yamlDocument: YAMLDocument) =>
+			getSelectionRanges(document, positions, <YAMLDocumentImpl>yamlDocument)
 	};
 }